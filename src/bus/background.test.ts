@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventBus } from './index.js';
+import { SQLiteStore } from '../store/index.js';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+function createTmpDbPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'background-test-'));
+  return path.join(dir, 'test.db');
+}
+
+function cleanupDb(dbPath: string): void {
+  try { fs.rmSync(path.dirname(dbPath), { recursive: true, force: true }); } catch { /* */ }
+}
+
+async function waitFor(cond: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!cond()) {
+    if (Date.now() - start > timeoutMs) throw new Error('waitFor timed out');
+    await new Promise((r) => setTimeout(r, 5));
+  }
+}
+
+describe('EventBus — background delivery mode', () => {
+  let bus: EventBus;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dbPath = createTmpDbPath();
+    bus = new EventBus(dbPath, { deliveryMode: 'background', pollIntervalMs: 10, delayFn: async () => {} });
+  });
+
+  afterEach(() => {
+    bus?.destroy();
+    cleanupDb(dbPath);
+  });
+
+  it('publish() resolves once the row is committed, before handlers run', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>((r) => { release = r; });
+    let handlerFinished = false;
+    bus.subscribe('slow', async () => {
+      await gate;
+      handlerFinished = true;
+    });
+    await bus.start();
+
+    const eventId = await bus.publish('slow', { n: 1 });
+    expect(handlerFinished).toBe(false);
+    expect(bus.getStore().getEvent(eventId)).toBeDefined();
+
+    release();
+    await waitFor(() => bus.getStore().getEvent(eventId)!.status === 'done');
+    expect(handlerFinished).toBe(true);
+  });
+
+  it('leaves events pending until start() launches the worker', async () => {
+    const received: string[] = [];
+    bus.subscribe('test', async (event) => { received.push(event.id); });
+
+    const eventId = await bus.publish('test', {});
+    await new Promise((r) => setTimeout(r, 30));
+    expect(received).toEqual([]);
+    expect(bus.getStore().getEvent(eventId)!.status).toBe('pending');
+
+    await bus.start();
+    await waitFor(() => received.length === 1);
+    expect(received).toEqual([eventId]);
+  });
+
+  it('dispatches events published before the process restarted', async () => {
+    const store = new SQLiteStore(dbPath);
+    const eventId = crypto.randomUUID();
+    const now = new Date().toISOString();
+    store.insertEvent({
+      id: eventId, type: 'order.created', payload: {}, status: 'processing',
+      retryCount: 0, createdAt: now, updatedAt: now,
+    });
+    store.close();
+
+    const received: string[] = [];
+    bus.subscribe('order.*', async (event) => { received.push(event.id); });
+    await bus.start();
+
+    await waitFor(() => received.length === 1);
+    expect(bus.getStore().getEvent(eventId)!.status).toBe('done');
+  });
+
+  it('competing buses on one file dispatch each event exactly once', async () => {
+    const sibling = new EventBus(dbPath, { deliveryMode: 'background', pollIntervalMs: 10, delayFn: async () => {} });
+    const byConsumer = new Map<string, string[]>();
+    for (const b of [bus, sibling]) {
+      const seen: string[] = [];
+      byConsumer.set(b.getConsumerId(), seen);
+      b.subscribe('job', async (event) => {
+        seen.push(event.id);
+        await new Promise((r) => setTimeout(r, 2));
+      });
+    }
+    await bus.start();
+    await sibling.start();
+
+    const ids = await bus.publishMany(Array.from({ length: 20 }, (_, n) => ({ type: 'job', payload: { n } })));
+    await waitFor(() => bus.getStore().getEventsByStatus('done').length === 20);
+
+    const all = [...byConsumer.values()].flat();
+    expect(all.sort()).toEqual([...ids].sort());
+    for (const id of ids) {
+      // Each event is delivered to the subscription of the bus that claimed it, and to no other
+      expect(byConsumer.get(bus.getStore().getEvent(id)!.locked_by!)).toContain(id);
+    }
+    await sibling.shutdown();
+  });
+
+  it('shutdown() stops the worker and drains dispatches it already claimed', async () => {
+    let handlerFinished = false;
+    bus.subscribe('slow', async () => {
+      await new Promise((r) => setTimeout(r, 50));
+      handlerFinished = true;
+    });
+    await bus.start();
+    await bus.publish('slow', {});
+    await waitFor(() => bus.getStore().getEventsByStatus('processing').length === 1);
+
+    await bus.shutdown();
+    expect(handlerFinished).toBe(true);
+  });
+
+  it('a dispatch that fails is logged by the worker as JSON, never an unhandled rejection', async () => {
+    const unhandled: unknown[] = [];
+    const onUnhandled = (reason: unknown) => { unhandled.push(reason); };
+    process.on('unhandledRejection', onUnhandled);
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      vi.spyOn(bus.getStore(), 'markDeliveryDone').mockImplementation(() => { throw new Error('disk I/O error'); });
+      bus.subscribe('test', async () => {});
+      await bus.start();
+
+      const eventId = await bus.publish('test', {});
+      await waitFor(() => error.mock.calls.length > 0);
+      await new Promise((r) => setTimeout(r, 20));
+
+      expect(unhandled).toEqual([]);
+      expect(JSON.parse(error.mock.calls[0][0] as string)).toEqual({
+        level: 'error', message: 'background dispatch failed', event_id: eventId, event_type: 'test', error: 'disk I/O error',
+      });
+    } finally {
+      error.mockRestore();
+      process.off('unhandledRejection', onUnhandled);
+    }
+  });
+});
@@ -228,6 +228,58 @@ describe('EventBus', () => {
     });
   });
 
+  // --- publishMany ---
+
+  describe('publishMany()', () => {
+    it('returns event IDs in input order and persists every event', async () => {
+      const ids = await bus.publishMany([
+        { type: 'import.row', payload: { n: 1 } },
+        { type: 'import.row', payload: { n: 2 }, metadata: { batch: 'b1' } },
+        { type: 'import.done', payload: {} },
+      ]);
+
+      expect(ids).toHaveLength(3);
+      expect(new Set(ids).size).toBe(3);
+      expect(JSON.parse(bus.getStore().getEvent(ids[0])!.payload)).toEqual({ n: 1 });
+      expect(JSON.parse(bus.getStore().getEvent(ids[1])!.metadata!)).toEqual({ batch: 'b1' });
+      expect(bus.getStore().getEvent(ids[2])!.type).toBe('import.done');
+    });
+
+    it('dispatches every event after the batch is committed, in order', async () => {
+      const seen: number[] = [];
+      let rowsVisible = 0;
+      bus.subscribe('import.row', async (event) => {
+        seen.push((event.payload as { n: number }).n);
+        rowsVisible = Math.max(rowsVisible, bus.getStore().getEventsByStatus('processing').length);
+      });
+
+      await bus.publishMany([1, 2, 3].map((n) => ({ type: 'import.row', payload: { n } })));
+      expect(seen).toEqual([1, 2, 3]);
+      // When the first handler ran, every row of the batch was already committed
+      expect(rowsVisible).toBe(3);
+    });
+
+    it('inserts nothing when any row fails (all-or-nothing)', async () => {
+      const calls: string[] = [];
+      bus.subscribe(async (event) => { calls.push(event.type); });
+
+      const circular: Record<string, unknown> = {};
+      circular.self = circular;
+      await expect(bus.publishMany([
+        { type: 'ok', payload: {} },
+        { type: 'bad', payload: circular },
+      ])).rejects.toThrow();
+
+      expect(bus.getStore().getEventsByStatus('pending')).toHaveLength(0);
+      expect(bus.getStore().getEventsByStatus('done')).toHaveLength(0);
+      expect(calls).toEqual([]);
+    });
+
+    it('accepts an empty batch', async () => {
+      await expect(bus.publishMany([])).resolves.toEqual([]);
+    });
+  });
+
   // --- Event type matching (glob) ---
 
   describe('glob matching', () => {
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EventBus } from './index.js';
+import type { Event } from '../types/index.js';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+function createTmpDbPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'context-test-'));
+  return path.join(dir, 'test.db');
+}
+
+function cleanupDb(dbPath: string): void {
+  try { fs.rmSync(path.dirname(dbPath), { recursive: true, force: true }); } catch { /* */ }
+}
+
+describe('EventBus — handler context', () => {
+  let dbPath: string;
+  let bus: EventBus | undefined;
+
+  beforeEach(() => {
+    dbPath = createTmpDbPath();
+  });
+
+  afterEach(() => {
+    bus?.destroy();
+    bus = undefined;
+    cleanupDb(dbPath);
+  });
+
+  it('context.publish links follow-up events to the chain that caused them', async () => {
+    bus = new EventBus(dbPath);
+    const seen = new Map<string, Event>();
+    bus.subscribe('order.placed', async (event, ctx) => {
+      seen.set(event.type, event);
+      await ctx.publish('payment.requested', { orderId: 1 });
+    });
+    bus.subscribe('payment.requested', async (event, ctx) => {
+      seen.set(event.type, event);
+      await ctx.publish('receipt.sent', {}, { channel: 'email' });
+    });
+    bus.subscribe('receipt.sent', async (event) => { seen.set(event.type, event); });
+
+    const rootId = await bus.publish('order.placed', {});
+
+    const payment = seen.get('payment.requested')!;
+    const receipt = seen.get('receipt.sent')!;
+    expect(payment.metadata).toEqual({ correlationId: rootId, causationId: rootId });
+    expect(receipt.metadata).toEqual({ correlationId: rootId, causationId: payment.id, channel: 'email' });
+    expect(JSON.parse(bus.getStore().getEvent(receipt.id)!.metadata!)).toEqual(receipt.metadata);
+  });
+
+  it('handlers that ignore the context keep working', async () => {
+    bus = new EventBus(dbPath);
+    let calls = 0;
+    bus.subscribe('legacy', async () => { calls++; });
+
+    const id = await bus.publish('legacy', {});
+    expect(calls).toBe(1);
+    expect(bus.getStore().getEvent(id)!.status).toBe('done');
+  });
+});
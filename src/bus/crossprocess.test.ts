@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventBus } from './index.js';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+function createTmpDbPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'crossprocess-test-'));
+  return path.join(dir, 'test.db');
+}
+
+function cleanupDb(dbPath: string): void {
+  try { fs.rmSync(path.dirname(dbPath), { recursive: true, force: true }); } catch { /* */ }
+}
+
+async function waitFor(cond: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!cond()) {
+    if (Date.now() - start > timeoutMs) throw new Error('waitFor timed out');
+    await new Promise((r) => setTimeout(r, 5));
+  }
+}
+
+// Two buses on one file stand in for two processes (separate connections)
+describe('EventBus — cross-process delivery', () => {
+  let dbPath: string;
+  let api: EventBus;
+  let worker: EventBus;
+
+  beforeEach(() => {
+    dbPath = createTmpDbPath();
+    api = new EventBus(dbPath, { delayFn: async () => {} });
+    worker = new EventBus(dbPath, { watchIntervalMs: 10, delayFn: async () => {} });
+  });
+
+  afterEach(() => {
+    api?.destroy();
+    worker?.destroy();
+    cleanupDb(dbPath);
+  });
+
+  it('delivers events published by another process to local subscriptions', async () => {
+    const seen: string[] = [];
+    const subId = worker.subscribe('job.*', async (event) => { seen.push(event.id); });
+    await worker.start();
+    await api.start();
+
+    const id = await api.publish('job.created', { n: 1 });
+    await waitFor(() => seen.length === 1);
+    expect(seen).toEqual([id]);
+    expect(worker.getStore().getDelivery(id, subId)!.status).toBe('done');
+  });
+
+  it('fans out to subscribers in both processes, each exactly once', async () => {
+    const apiSeen: string[] = [];
+    const workerSeen: string[] = [];
+    api.subscribe('job.*', async (event) => { apiSeen.push(event.id); });
+    worker.subscribe('job.*', async (event) => { workerSeen.push(event.id); });
+    await worker.start();
+    await api.start();
+
+    const ids = [await api.publish('job.created', {}), await api.publish('job.created', {})];
+    await waitFor(() => workerSeen.length === 2);
+    await new Promise((r) => setTimeout(r, 40)); // a few more watcher polls
+    expect(apiSeen).toEqual(ids);
+    expect(workerSeen).toEqual(ids);
+  });
+
+  it('does not deliver events published before the subscription was bound', async () => {
+    await api.publish('job.created', {});
+    const seen: string[] = [];
+    worker.subscribe('job.*', async (event) => { seen.push(event.id); });
+    await worker.start();
+
+    const later = await api.publish('job.created', {});
+    await waitFor(() => seen.length === 1);
+    await new Promise((r) => setTimeout(r, 40));
+    expect(seen).toEqual([later]);
+  });
+
+  it('a remote delivery failure dead-letters only that delivery and the event', async () => {
+    const apiSubId = api.subscribe('job.*', async () => {});
+    const workerSubId = worker.subscribe('job.*', async () => { throw new Error('boom'); }, {
+      retry: { maxRetries: 0 },
+    });
+    await worker.start();
+
+    const id = await api.publish('job.created', {});
+    const store = api.getStore();
+    await waitFor(() => store.getDelivery(id, workerSubId)?.status === 'dlq');
+    expect(store.getDelivery(id, apiSubId)!.status).toBe('done');
+    await waitFor(() => store.getEvent(id)!.status === 'dlq');
+  });
+
+  it('the watcher cursor moves past an event still pending elsewhere and delivers it once finished', async () => {
+    const seen: string[] = [];
+    worker.subscribe('job.*', async (event) => { seen.push(event.id); });
+    await worker.start();
+    await api.start();
+    const scans = vi.spyOn(worker.getStore(), 'getEventsAfter');
+
+    const delayed = await api.publish('job.later', {}, undefined, { delayMs: 60_000 });
+    const ids = [await api.publish('job.now', {}), await api.publish('job.now', {})];
+    await waitFor(() => seen.length === 2);
+
+    // The next poll scans from after the last delivered event, not from the delayed one
+    scans.mockClear();
+    ids.push(await api.publish('job.now', {}));
+    await waitFor(() => seen.length === 3);
+    expect(scans.mock.calls[0][0]).toBe(worker.getStore().getEvent(ids[1])!.seq);
+    expect(seen).toEqual(ids);
+
+    // Once it is finished elsewhere, the event passed over is delivered after all
+    api.getStore().updateEventStatus(delayed, 'done');
+    await waitFor(() => seen.length === 4);
+    expect(seen[3]).toBe(delayed);
+  });
+
+  it('without watchIntervalMs, other processes\' events are not delivered', async () => {
+    const plain = new EventBus(dbPath);
+    const seen: string[] = [];
+    plain.subscribe('job.*', async (event) => { seen.push(event.id); });
+    await plain.start();
+
+    await api.publish('job.created', {});
+    await new Promise((r) => setTimeout(r, 50));
+    expect(seen).toEqual([]);
+    plain.destroy();
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EventBus } from './index.js';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+function createTmpDbPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'delayed-test-'));
+  return path.join(dir, 'test.db');
+}
+
+function cleanupDb(dbPath: string): void {
+  try { fs.rmSync(path.dirname(dbPath), { recursive: true, force: true }); } catch { /* */ }
+}
+
+async function waitFor(cond: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!cond()) {
+    if (Date.now() - start > timeoutMs) throw new Error('waitFor timed out');
+    await new Promise((r) => setTimeout(r, 5));
+  }
+}
+
+describe('EventBus — delayed delivery', () => {
+  let bus: EventBus;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dbPath = createTmpDbPath();
+    bus = new EventBus(dbPath, { delayFn: async () => {} });
+  });
+
+  afterEach(() => {
+    bus?.destroy();
+    cleanupDb(dbPath);
+  });
+
+  it('persists a delayed event immediately but does not dispatch it inline', async () => {
+    const received: string[] = [];
+    bus.subscribe('reminder.send', async (event) => { received.push(event.id); });
+    await bus.start();
+
+    const eventId = await bus.publish('reminder.send', { userId: 1 }, undefined, { delayMs: 60_000 });
+
+    expect(received).toEqual([]);
+    const row = bus.getStore().getEvent(eventId)!;
+    expect(row.status).toBe('pending');
+    expect(Date.parse(row.available_at) - Date.parse(row.created_at)).toBe(60_000);
+  });
+
+  it('dispatches a delayed event once it falls due', async () => {
+    const received: number[] = [];
+    bus.subscribe('reminder.send', async () => { received.push(Date.now()); });
+    await bus.start();
+
+    const publishedAt = Date.now();
+    const eventId = await bus.publish('reminder.send', {}, undefined, { delayMs: 80 });
+
+    await waitFor(() => received.length === 1);
+    expect(received[0] - publishedAt).toBeGreaterThanOrEqual(75);
+    expect(bus.getStore().getEvent(eventId)!.status).toBe('done');
+  });
+
+  it('accepts an absolute deliverAt', async () => {
+    const received: string[] = [];
+    bus.subscribe('order.unpaid', async (event) => { received.push(event.id); });
+    await bus.start();
+
+    const deliverAt = new Date(Date.now() + 50);
+    const eventId = await bus.publish('order.unpaid', {}, undefined, { deliverAt });
+    expect(bus.getStore().getEvent(eventId)!.available_at).toBe(deliverAt.toISOString());
+
+    await waitFor(() => received.length === 1);
+    expect(received).toEqual([eventId]);
+  });
+
+  it('dispatches immediate events inline while delayed ones wait', async () => {
+    const received: string[] = [];
+    bus.subscribe('job.*', async (event) => { received.push(event.type); });
+    await bus.start();
+
+    await bus.publishMany([
+      { type: 'job.later', payload: {}, delayMs: 60_000 },
+      { type: 'job.now', payload: {} },
+    ]);
+    expect(received).toEqual(['job.now']);
+  });
+
+  it('delivers events that fell due while the process was down', async () => {
+    const eventId = await bus.publish('reminder.send', {}, undefined, { delayMs: 30 });
+    bus.destroy();
+
+    await new Promise((r) => setTimeout(r, 50)); // "downtime" past the due time
+
+    const received: string[] = [];
+    bus = new EventBus(dbPath, { delayFn: async () => {} });
+    bus.subscribe('reminder.send', async (event) => { received.push(event.id); });
+    await bus.start();
+
+    await waitFor(() => received.length === 1);
+    expect(received).toEqual([eventId]);
+  });
+
+  it('rejects passing both deliverAt and delayMs', async () => {
+    await expect(bus.publish('x', {}, undefined, { delayMs: 10, deliverAt: Date.now() })).rejects.toThrow(TypeError);
+  });
+});
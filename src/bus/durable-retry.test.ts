@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EventBus } from './index.js';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+function createTmpDbPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'durable-retry-test-'));
+  return path.join(dir, 'test.db');
+}
+
+function cleanupDb(dbPath: string): void {
+  try { fs.rmSync(path.dirname(dbPath), { recursive: true, force: true }); } catch { /* */ }
+}
+
+async function waitFor(cond: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!cond()) {
+    if (Date.now() - start > timeoutMs) throw new Error('waitFor timed out');
+    await new Promise((r) => setTimeout(r, 5));
+  }
+}
+
+describe('EventBus — durable retries', () => {
+  let dbPath: string;
+
+  beforeEach(() => {
+    dbPath = createTmpDbPath();
+  });
+
+  afterEach(() => {
+    cleanupDb(dbPath);
+  });
+
+  it('publish() resolves after the first attempt; the worker runs the retry once due', async () => {
+    const bus = new EventBus(dbPath, { durableRetries: true, pollIntervalMs: 10, logFn: () => {} });
+    let calls = 0;
+    bus.subscribe('order.*', async () => {
+      calls++;
+      if (calls === 1) throw new Error('transient');
+    }, { retry: { maxRetries: 3, baseDelayMs: 30 } });
+    await bus.start();
+
+    const id = await bus.publish('order.created', {});
+    expect(calls).toBe(1);
+    expect(bus.getStore().getEvent(id)!.status).toBe('pending');
+
+    await waitFor(() => bus.getStore().getEvent(id)!.status === 'done');
+    expect(calls).toBe(2);
+    await bus.shutdown();
+  });
+
+  it('a retry scheduled before a crash runs after restart with its attempt count intact', async () => {
+    const first = new EventBus(dbPath, { durableRetries: true, logFn: () => {} });
+    const subName = { name: 'mailer', pattern: 'mail.*' };
+    first.subscribe(subName, async () => { throw new Error('smtp down'); },
+      { retry: { maxRetries: 2, baseDelayMs: 50 } });
+    const id = await first.publish('mail.send', {});
+    first.destroy(); // crash mid-backoff
+
+    const attempts: number[] = [];
+    const second = new EventBus(dbPath, { durableRetries: true, pollIntervalMs: 10, logFn: () => {} });
+    const subId = second.subscribe(subName, async () => {
+      attempts.push(second.getStore().getDelivery(id, subId)!.retry_count);
+    }, { retry: { maxRetries: 2, baseDelayMs: 50 } });
+    await second.start();
+
+    await waitFor(() => second.getStore().getEvent(id)!.status === 'done');
+    expect(attempts).toEqual([1]); // resumed as the second attempt, not from scratch
+    await second.shutdown();
+  });
+
+  it('the retry runs only the deliveries of the first dispatch, not subscriptions bound since', async () => {
+    const bus = new EventBus(dbPath, { durableRetries: true, pollIntervalMs: 10, logFn: () => {} });
+    let aCalls = 0;
+    let cCalls = 0;
+    bus.subscribe('order.*', async () => {
+      aCalls++;
+      if (aCalls === 1) throw new Error('transient');
+    }, { retry: { maxRetries: 3, baseDelayMs: 30 } });
+    await bus.start();
+
+    const id = await bus.publish('order.created', {});
+    const late = bus.subscribe('order.*', async () => { cCalls++; });
+
+    await waitFor(() => bus.getStore().getEvent(id)!.status === 'done');
+    expect(aCalls).toBe(2);
+    expect(cCalls).toBe(0);
+    expect(bus.getStore().getDelivery(id, late)).toBeUndefined();
+
+    await bus.publish('order.updated', {});
+    expect(cCalls).toBe(1); // later events still reach it
+    await bus.shutdown();
+  });
+
+  it('a retry owed to a sibling process\'s subscription is left to that process\'s worker', async () => {
+    const a = new EventBus(dbPath, { durableRetries: true, pollIntervalMs: 5, logFn: () => {} });
+    const b = new EventBus(dbPath, { durableRetries: true, pollIntervalMs: 10, logFn: () => {} });
+    let aCalls = 0;
+    let bCalls = 0;
+    a.subscribe('user.*', async () => { aCalls++; });
+    const bSub = b.subscribe('order.*', async () => {
+      bCalls++;
+      if (bCalls === 1) throw new Error('transient');
+    }, { retry: { maxRetries: 3, baseDelayMs: 20 } });
+    await a.start();
+
+    // The retry falls due while only A's worker runs: A must not claim it and settle it without B
+    const id = await b.publish('order.created', {});
+    await new Promise((r) => setTimeout(r, 100));
+    expect(b.getStore().getEvent(id)!.status).toBe('pending');
+    expect(b.getStore().getDelivery(id, bSub)?.status).toBe('pending');
+
+    await b.start();
+    await waitFor(() => b.getStore().getEvent(id)!.status === 'done');
+    expect(bCalls).toBe(2);
+    expect(aCalls).toBe(0);
+    expect(b.getStore().getDelivery(id, bSub)?.status).toBe('done');
+    await a.shutdown();
+    await b.shutdown();
+  });
+});
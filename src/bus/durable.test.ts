@@ -0,0 +1,248 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventBus } from './index.js';
+import type { Event } from '../types/index.js';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+function createTmpDbPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'durable-test-'));
+  return path.join(dir, 'test.db');
+}
+
+function cleanupDb(dbPath: string): void {
+  try { fs.rmSync(path.dirname(dbPath), { recursive: true, force: true }); } catch { /* */ }
+}
+
+async function waitFor(cond: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!cond()) {
+    if (Date.now() - start > timeoutMs) throw new Error('waitFor timed out');
+    await new Promise((r) => setTimeout(r, 5));
+  }
+}
+
+const projector = { name: 'billing-projector', pattern: 'order.*' };
+
+describe('EventBus — durable named subscriptions', () => {
+  let dbPath: string;
+  let warn: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    dbPath = createTmpDbPath();
+    warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+    cleanupDb(dbPath);
+  });
+
+  it('rebinds to the same subscription row and ID across restarts', () => {
+    const bus1 = new EventBus(dbPath);
+    const id = bus1.subscribe(projector, async () => {});
+    bus1.destroy();
+
+    const bus2 = new EventBus(dbPath);
+    expect(bus2.subscribe({ name: 'billing-projector', pattern: 'order.paid' }, async () => {})).toBe(id);
+    const row = bus2.getStore().getSubscription(id)!;
+    expect(row.name).toBe('billing-projector');
+    expect(row.event_type).toBe('order.paid'); // pattern updated in place
+    expect(bus2.getStore().getAllSubscriptions()).toHaveLength(1);
+    bus2.destroy();
+  });
+
+  it('throws when the same name is bound twice in one process', () => {
+    const bus = new EventBus(dbPath);
+    bus.subscribe(projector, async () => {});
+    expect(() => bus.subscribe(projector, async () => {})).toThrow('already bound');
+    bus.destroy();
+  });
+
+  it('start() delivers matching events published while the handler was offline', async () => {
+    const bus1 = new EventBus(dbPath);
+    const seen1: string[] = [];
+    bus1.subscribe(projector, async (e) => { seen1.push(e.id); });
+    await bus1.start();
+    const before = await bus1.publish('order.created', { n: 1 });
+    bus1.destroy();
+
+    // Offline: another process publishes without the projector bound
+    const bus2 = new EventBus(dbPath);
+    const other: string[] = [];
+    bus2.subscribe('order.*', async (e) => { other.push(e.id); });
+    const missed = await bus2.publish('order.created', { n: 2 });
+    await bus2.publish('user.created', { n: 3 });
+    bus2.destroy();
+
+    const bus3 = new EventBus(dbPath);
+    const seen3: Event[] = [];
+    bus3.subscribe(projector, async (e) => { seen3.push(e); });
+    await bus3.start();
+
+    expect(seen1).toEqual([before]);
+    expect(seen3.map((e) => e.id)).toEqual([missed]);
+    expect(seen3[0].payload).toEqual({ n: 2 });
+    expect(other).toEqual([missed]); // the other subscriber is not re-run
+    const store = bus3.getStore();
+    expect(store.getEvent(missed)!.status).toBe('done');
+    expect(store.getSubscriptionByName('billing-projector')!.position).toBe(store.getLastEventSeq());
+    bus3.destroy();
+
+    // Nothing is replayed a second time
+    const bus4 = new EventBus(dbPath);
+    const seen4: string[] = [];
+    bus4.subscribe(projector, async (e) => { seen4.push(e.id); });
+    await bus4.start();
+    expect(seen4).toEqual([]);
+    bus4.destroy();
+  });
+
+  it('a new durable subscription starts at the end of the log', async () => {
+    const bus = new EventBus(dbPath);
+    await bus.publish('order.created', {});
+    const seen: string[] = [];
+    bus.subscribe(projector, async (e) => { seen.push(e.id); });
+    await bus.start();
+    expect(seen).toEqual([]);
+    bus.destroy();
+  });
+
+  it('a failing catch-up delivery is dead-lettered for that subscription only', async () => {
+    const bus1 = new EventBus(dbPath);
+    const subId = bus1.subscribe(projector, async () => {});
+    bus1.destroy();
+
+    const bus2 = new EventBus(dbPath);
+    const eventId = await bus2.publish('order.created', {});
+    bus2.destroy();
+
+    const bus3 = new EventBus(dbPath, { delayFn: async () => {} });
+    bus3.subscribe(projector, async () => { throw new Error('projection failed'); }, { retry: { maxRetries: 1 } });
+    await bus3.start();
+
+    const store = bus3.getStore();
+    expect(store.getDelivery(eventId, subId)!.status).toBe('dlq');
+    expect(store.getEvent(eventId)!.status).toBe('dlq');
+    bus3.destroy();
+  });
+
+  it('pending events reach the rebound subscription once, through the normal flow', async () => {
+    const bus1 = new EventBus(dbPath);
+    bus1.subscribe(projector, async () => {});
+    bus1.destroy();
+
+    const bus2 = new EventBus(dbPath, { deliveryMode: 'background' });
+    const eventId = await bus2.publish('order.created', {}); // committed, never dispatched
+    bus2.destroy();
+
+    const bus3 = new EventBus(dbPath, { deliveryMode: 'background' });
+    const seen: string[] = [];
+    bus3.subscribe(projector, async (e) => { seen.push(e.id); });
+    await bus3.start();
+    await waitFor(() => bus3.getStore().getEvent(eventId)!.status === 'done');
+    expect(seen).toEqual([eventId]);
+    await bus3.shutdown();
+  });
+
+  it('catches up immediately when bound after start()', async () => {
+    const bus1 = new EventBus(dbPath);
+    bus1.subscribe(projector, async () => {});
+    bus1.destroy();
+
+    const bus2 = new EventBus(dbPath);
+    const missed = await bus2.publish('order.created', {});
+    bus2.destroy();
+
+    const bus3 = new EventBus(dbPath);
+    await bus3.start();
+    const seen: string[] = [];
+    bus3.subscribe(projector, async (e) => { seen.push(e.id); });
+    await waitFor(() => seen.length === 1);
+    expect(seen).toEqual([missed]);
+    await bus3.shutdown();
+  });
+
+  it('shutdown() during start()\'s catch-up stops it cleanly', async () => {
+    const bus1 = new EventBus(dbPath);
+    bus1.subscribe(projector, async () => {});
+    bus1.destroy();
+
+    const bus2 = new EventBus(dbPath);
+    for (let i = 0; i < 3; i++) await bus2.publish('order.created', { i });
+    bus2.destroy();
+
+    const bus3 = new EventBus(dbPath);
+    const seen: unknown[] = [];
+    let stopping: Promise<void> | undefined;
+    bus3.subscribe(projector, async (e) => {
+      seen.push(e.payload);
+      stopping ??= bus3.shutdown();
+    });
+
+    await expect(bus3.start()).resolves.toBeDefined();
+    await stopping;
+    expect(seen).toEqual([{ i: 0 }]);
+  });
+
+  it('shutdown() during the catch-up of a subscription bound after start() logs no error', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      const bus1 = new EventBus(dbPath);
+      bus1.subscribe(projector, async () => {});
+      bus1.destroy();
+
+      const bus2 = new EventBus(dbPath);
+      for (let i = 0; i < 3; i++) await bus2.publish('order.created', { i });
+      bus2.destroy();
+
+      const bus3 = new EventBus(dbPath);
+      await bus3.start();
+      let stopping: Promise<void> | undefined;
+      bus3.subscribe(projector, async () => { stopping ??= bus3.shutdown(); });
+      await waitFor(() => stopping !== undefined);
+      await stopping;
+      await new Promise((r) => setTimeout(r, 20));
+      expect(error).not.toHaveBeenCalled();
+    } finally {
+      error.mockRestore();
+    }
+  });
+
+  it('reports durable subscriptions that have no bound handler', async () => {
+    const bus1 = new EventBus(dbPath);
+    const anonId = bus1.subscribe('order.*', async () => {});
+    const namedId = bus1.subscribe(projector, async () => {});
+    bus1.destroy();
+
+    // Anonymous rows left by a crash can never be rebound, so they are not reported
+    const bus2 = new EventBus(dbPath);
+    const orphans = bus2.getOrphanedSubscriptions();
+    expect(orphans.map((o) => o.id)).toEqual([namedId]);
+    expect(orphans[0].name).toBe('billing-projector');
+    expect(bus2.getStore().getSubscription(anonId)).toBeDefined();
+
+    await bus2.start();
+    const logged = warn.mock.calls.map((c) => JSON.parse(c[0] as string));
+    expect(logged.map((l) => l.subscription_id)).toEqual([namedId]);
+
+    // Dropping the stale row clears the report
+    bus2.unsubscribe(namedId);
+    expect(bus2.getOrphanedSubscriptions()).toEqual([]);
+    bus2.destroy();
+  });
+
+  it('shutdown() deletes anonymous subscription rows and keeps durable ones', async () => {
+    const bus1 = new EventBus(dbPath);
+    const anonId = bus1.subscribe('order.*', async () => {});
+    const namedId = bus1.subscribe(projector, async () => {});
+    await bus1.shutdown();
+
+    const bus2 = new EventBus(dbPath);
+    const store = bus2.getStore();
+    expect(store.getSubscription(anonId)).toBeUndefined();
+    expect(store.getSubscription(namedId)?.name).toBe('billing-projector');
+    expect(bus2.getOrphanedSubscriptions().map((o) => o.id)).toEqual([namedId]);
+    bus2.destroy();
+  });
+});
@@ -0,0 +1,35 @@
+import type { Event, PublishInput } from '../types/index.js';
+
+/** Event type → payload type, for `EventBus<TEvents>`. The default leaves the bus untyped. */
+export type EventMap = Record<string, unknown>;
+
+// Type-level matchGlob: `*` matches exactly one segment, a standalone `*` matches everything
+type Segments<S extends string> = S extends `${infer Head}.${infer Rest}` ? [Head, ...Segments<Rest>] : [S];
+
+type SegmentsMatch<Pattern extends string[], EventType extends string[]> =
+  Pattern extends [infer P extends string, ...infer PatternRest extends string[]]
+    ? EventType extends [infer E extends string, ...infer EventTypeRest extends string[]]
+      ? P extends '*' | E ? SegmentsMatch<PatternRest, EventTypeRest> : false
+      : false
+    : EventType extends [] ? true : false;
+
+export type MatchesGlob<Pattern extends string, EventType extends string> =
+  Pattern extends '*' ? true : SegmentsMatch<Segments<Pattern>, Segments<EventType>>;
+
+/** Event types of `TEvents` that `Pattern` matches; all of them when the pattern is not a literal. */
+export type EventTypesMatching<TEvents extends EventMap, Pattern extends string> = {
+  [K in keyof TEvents & string]: string extends Pattern ? K : MatchesGlob<Pattern, K> extends true ? K : never;
+}[keyof TEvents & string];
+
+/**
+ * What a handler subscribed with `Pattern` receives: a union of the matching events, discriminated
+ * on `type` (so `payload` narrows with it). Plain `Event` on an untyped bus.
+ */
+export type EventFor<TEvents extends EventMap, Pattern extends string> = string extends keyof TEvents
+  ? Event
+  : { [K in EventTypesMatching<TEvents, Pattern>]: Event<K, TEvents[K]> }[EventTypesMatching<TEvents, Pattern>];
+
+/** One publishMany() entry: a known event type with its payload. Plain `PublishInput` on an untyped bus. */
+export type PublishInputFor<TEvents extends EventMap> = string extends keyof TEvents
+  ? PublishInput
+  : { [K in keyof TEvents & string]: PublishInput<K, TEvents[K]> }[keyof TEvents & string];
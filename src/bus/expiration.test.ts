@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EventBus } from './index.js';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+function createTmpDbPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'expiration-test-'));
+  return path.join(dir, 'test.db');
+}
+
+function cleanupDb(dbPath: string): void {
+  try { fs.rmSync(path.dirname(dbPath), { recursive: true, force: true }); } catch { /* */ }
+}
+
+async function waitFor(cond: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!cond()) {
+    if (Date.now() - start > timeoutMs) throw new Error('waitFor timed out');
+    await new Promise((r) => setTimeout(r, 5));
+  }
+}
+
+describe('EventBus — expiration', () => {
+  let dbPath: string;
+  let bus: EventBus | undefined;
+
+  beforeEach(() => {
+    dbPath = createTmpDbPath();
+  });
+
+  afterEach(() => {
+    bus?.destroy();
+    bus = undefined;
+    cleanupDb(dbPath);
+  });
+
+  it('persists ttlMs as expires_at and delivers before the deadline', async () => {
+    bus = new EventBus(dbPath);
+    let seen: Date | undefined;
+    bus.subscribe('typing.*', async (event) => { seen = event.expiresAt; });
+
+    const before = Date.now();
+    const id = await bus.publish('typing.started', {}, undefined, { ttlMs: 5000 });
+    const row = bus.getStore().getEvent(id)!;
+    expect(row.status).toBe('done');
+    expect(Date.parse(row.expires_at!)).toBeGreaterThanOrEqual(before + 5000);
+    expect(seen?.toISOString()).toBe(row.expires_at);
+  });
+
+  it('an event that expires while waiting for the worker is never dispatched', async () => {
+    bus = new EventBus(dbPath, { pollIntervalMs: 10 });
+    let calls = 0;
+    bus.subscribe('quote.*', async () => { calls++; });
+    await bus.start();
+
+    const id = await bus.publish('quote.issued', {}, undefined, { delayMs: 30, ttlMs: 10 });
+    await waitFor(() => bus!.getStore().getEvent(id)!.status === 'expired');
+    expect(calls).toBe(0);
+  });
+
+  it('rejects expiresAt together with ttlMs', async () => {
+    bus = new EventBus(dbPath);
+    await expect(bus.publish('x', {}, undefined, { ttlMs: 1, expiresAt: Date.now() + 1 })).rejects.toThrow(TypeError);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EventBus } from './index.js';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+function createTmpDbPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'idempotency-test-'));
+  return path.join(dir, 'test.db');
+}
+
+function cleanupDb(dbPath: string): void {
+  try { fs.rmSync(path.dirname(dbPath), { recursive: true, force: true }); } catch { /* */ }
+}
+
+function countEvents(bus: EventBus): number {
+  const db = bus.getStore().getDatabase();
+  return (db.prepare('SELECT COUNT(*) AS n FROM events').get() as { n: number }).n;
+}
+
+describe('EventBus — idempotent publish', () => {
+  let bus: EventBus;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dbPath = createTmpDbPath();
+    bus = new EventBus(dbPath, { delayFn: async () => {} });
+  });
+
+  afterEach(() => {
+    bus?.destroy();
+    cleanupDb(dbPath);
+  });
+
+  it('returns the existing event ID for a repeated key without inserting or dispatching again', async () => {
+    let calls = 0;
+    bus.subscribe('payment.captured', async () => { calls++; });
+
+    const first = await bus.publish('payment.captured', { amount: 10 }, undefined, { idempotencyKey: 'pay-1' });
+    const second = await bus.publish('payment.captured', { amount: 10 }, undefined, { idempotencyKey: 'pay-1' });
+
+    expect(second).toBe(first);
+    expect(countEvents(bus)).toBe(1);
+    expect(calls).toBe(1);
+  });
+
+  it('treats different keys as different events', async () => {
+    const a = await bus.publish('t', {}, undefined, { idempotencyKey: 'a' });
+    const b = await bus.publish('t', {}, undefined, { idempotencyKey: 'b' });
+    expect(a).not.toBe(b);
+    expect(countEvents(bus)).toBe(2);
+  });
+
+  it('publishes without a key are never deduplicated', async () => {
+    await bus.publish('t', {});
+    await bus.publish('t', {});
+    expect(countEvents(bus)).toBe(2);
+  });
+
+  it('accepts the key again once the dedup window has passed', async () => {
+    const shortPath = createTmpDbPath();
+    const shortBus = new EventBus(shortPath, { dedupWindowMs: 20 });
+    try {
+      const first = await shortBus.publish('t', {}, undefined, { idempotencyKey: 'k' });
+      await new Promise((r) => setTimeout(r, 30));
+      const second = await shortBus.publish('t', {}, undefined, { idempotencyKey: 'k' });
+      expect(second).not.toBe(first);
+    } finally {
+      shortBus.destroy();
+      cleanupDb(shortPath);
+    }
+  });
+
+  it('deduplicates inside a single publishMany batch', async () => {
+    const ids = await bus.publishMany([
+      { type: 't', payload: { n: 1 }, idempotencyKey: 'dup' },
+      { type: 't', payload: { n: 2 }, idempotencyKey: 'dup' },
+      { type: 't', payload: { n: 3 } },
+    ]);
+    expect(ids[1]).toBe(ids[0]);
+    expect(ids[2]).not.toBe(ids[0]);
+    expect(countEvents(bus)).toBe(2);
+  });
+
+  it('does not remember keys from a rolled-back transaction', async () => {
+    await expect(bus.transaction((tx) => {
+      tx.publish('t', {}, undefined, { idempotencyKey: 'rolled-back' });
+      throw new Error('abort');
+    })).rejects.toThrow('abort');
+
+    await bus.publish('t', {}, undefined, { idempotencyKey: 'rolled-back' });
+    expect(countEvents(bus)).toBe(1);
+  });
+
+  it('store purges expired dedup records', () => {
+    const store = bus.getStore();
+    store.insertDedupKey('old', 'e1', '2024-01-01T00:00:00.000Z', '2024-01-02T00:00:00.000Z');
+    store.insertDedupKey('fresh', 'e2', '2024-01-01T00:00:00.000Z', '2999-01-01T00:00:00.000Z');
+
+    expect(store.purgeExpiredDedupKeys(new Date().toISOString())).toBe(1);
+    expect(store.getDedupEventId('old', '2024-01-01T12:00:00.000Z')).toBeUndefined();
+    expect(store.getDedupEventId('fresh', new Date().toISOString())).toBe('e2');
+  });
+});
@@ -1,13 +1,78 @@
 import { randomUUID } from 'node:crypto';
-import { SQLiteStore } from '../store/index.js';
+import type Database from 'better-sqlite3';
+import { SQLiteStore, byClaimOrder, toEvent, type EventRow } from '../store/index.js';
 import { Dispatcher } from '../dispatcher/index.js';
-import type { DispatcherOptions } from '../dispatcher/index.js';
-import type { Event, EventHandler, Subscription, SubscribeOptions } from '../types/index.js';
+import type { CircuitBreakers, DispatcherOptions } from '../dispatcher/index.js';
+import { DEFAULT_LEASE_MS, DEFAULT_PRIORITY_AGING_MS, DispatchWorker, defaultConsumerId } from '../worker/index.js';
+import type { WorkerOptions } from '../worker/index.js';
+import { Scheduler } from '../scheduler/index.js';
+import type { SchedulerOptions } from '../scheduler/index.js';
+import { ChangeWatcher } from '../watcher/index.js';
+import type { WatcherOptions } from '../watcher/index.js';
+import { matchGlob } from './glob.js';
+import { LifecycleEmitter, type BusLifecycleEvent, type LifecycleListener } from './lifecycle.js';
+import type { EventFor, EventMap, PublishInputFor } from './event-map.js';
+import type {
+  Event, EventHandler, EventStatus, HandlerMiddleware, NamedSubscription, PublishInput, PublishMiddleware, PublishOptions,
+  Schedule, ScheduleOptions, Subscription, SubscribeOptions, SubscriptionRow,
+} from '../types/index.js';
+
+export type { BusLifecycleEvent, BusLifecycleEvents, LifecycleListener } from './lifecycle.js';
+export type { EventFor, EventMap, EventTypesMatching, MatchesGlob, PublishInputFor } from './event-map.js';
 
 const DEFAULT_SHUTDOWN_TIMEOUT_MS = 30_000;
+const DEFAULT_DEDUP_WINDOW_MS = 24 * 60 * 60 * 1000;
+const DEDUP_PURGE_INTERVAL_MS = 60_000;
+const CATCH_UP_BATCH_SIZE = 500;
+
+/**
+ * - `inline`: publish() awaits dispatch (handlers, timeouts, retries) before resolving.
+ * - `background`: publish() resolves once the row is committed; the worker started by start() dispatches it.
+ * Delayed events are always dispatched by the worker, in both modes.
+ */
+export type DeliveryMode = 'inline' | 'background';
 
-export interface EventBusOptions extends DispatcherOptions {
+export interface EventBusOptions
+  extends Omit<DispatcherOptions, 'publish' | 'hooks' | 'onParkedReleased'>, WorkerOptions, SchedulerOptions, WatcherOptions {
   shutdownTimeoutMs?: number; // default: 30s
+  deliveryMode?: DeliveryMode; // default: 'inline'
+  dedupWindowMs?: number;      // how long an idempotency key is remembered (default: 24h)
+  publishMiddleware?: PublishMiddleware[]; // run in order on every publish before its event is inserted
+}
+
+/** Handle passed to the `transaction()` callback. Only valid until the callback returns. */
+export interface BusTransaction<TEvents extends EventMap = EventMap> {
+  /** The bus connection — business writes made through it commit or roll back with the events. */
+  db: Database.Database;
+  /** Insert an event inside the transaction; it is dispatched only after commit. Returns the event ID. */
+  publish<K extends keyof TEvents & string>(
+    eventType: K,
+    payload: TEvents[K],
+    metadata?: Record<string, string>,
+    options?: PublishOptions,
+  ): string;
+}
+
+/** What `start()` found and did with events left behind by an earlier run. */
+export interface RecoverySummary {
+  /** `processing` rows taken over because their lease expired (the holder died mid-dispatch) */
+  processing: number;
+  /** Due `pending` rows never dispatched (the process died between insert and dispatch); inline mode only */
+  pending: number;
+  /** Recovered events whose deliveries all completed */
+  delivered: number;
+  /** Recovered events dead-lettered, including ones whose lost attempts had used up the retry budget */
+  deadLettered: number;
+  /** Recovered events left to the worker: released in background mode, or waiting on a durable retry */
+  deferred: number;
+}
+
+// Result of inserting one event: `event` is null when an idempotency key matched an earlier event;
+// `claimed` rows were inserted already processing, for the caller to dispatch inline
+interface Inserted {
+  id: string;
+  event: Event | null;
+  claimed: boolean;
 }
 
 export class EventBusShutdownError extends Error {
@@ -17,43 +82,170 @@ export class EventBusShutdownError extends Error {
   }
 }
 
-export class EventBus {
+/**
+ * `TEvents` maps event types to payload types, e.g. `EventBus<{ 'user.created': User }>` (declare it
+ * as a type alias: interfaces lack the index signature the constraint needs). publish() then checks
+ * payloads, and a handler's event is the union of the events its pattern matches. The default leaves
+ * the bus untyped. Handlers' `context.publish` stays untyped.
+ */
+export class EventBus<TEvents extends EventMap = EventMap> {
   private store: SQLiteStore;
   private handlers = new Map<string, Subscription>();
   private dispatcher: Dispatcher;
   private shuttingDown = false;
   private inFlight = new Set<Promise<void>>();
   private shutdownTimeoutMs: number;
+  private deliveryMode: DeliveryMode;
+  private worker: DispatchWorker;
+  private scheduler: Scheduler;
+  private dedupWindowMs: number;
+  private lastDedupPurgeAt = 0;
+  private started = false;
+  private consumerId: string;
+  private leaseMs: number;
+  private priorityAgingMs: number;
+  private heartbeat: NodeJS.Timeout;
+  private watcher: ChangeWatcher | null = null;
+  private watchCursor: number;
+  private watchDeferred = new Set<string>(); // event IDs the watcher passed while they were in flight elsewhere
+  private boundAtSeq = new Map<string, number>(); // subscription ID → last event seq when it was bound
+  private catchingUp = new Set<string>();
+  private durableRetries: boolean;
+  private lifecycle = new LifecycleEmitter();
+  private publishMiddleware: PublishMiddleware[];
 
   constructor(dbPath: string, options?: EventBusOptions) {
     this.store = new SQLiteStore(dbPath);
-    this.dispatcher = new Dispatcher(this.store, options);
+    this.dispatcher = new Dispatcher(this.store, {
+      ...options,
+      publish: (eventType, payload, metadata, publishOptions) =>
+        this.publishInput({ type: eventType, payload, metadata, ...publishOptions }),
+      onParkedReleased: () => this.worker.wake(),
+      onCircuitTransition: (transition) => {
+        if (transition.to === 'open') this.lifecycle.emit('circuitOpened', transition);
+        else if (transition.to === 'closed') this.lifecycle.emit('circuitClosed', transition);
+        options?.onCircuitTransition?.(transition);
+      },
+      hooks: {
+        handlerFailed: (info) => this.lifecycle.emit('handlerFailed', info),
+        retryScheduled: (info) => this.lifecycle.emit('retryScheduled', info),
+        deadLettered: (info) => this.lifecycle.emit('deadLettered', info),
+      },
+    });
     this.shutdownTimeoutMs = options?.shutdownTimeoutMs ?? DEFAULT_SHUTDOWN_TIMEOUT_MS;
+    this.deliveryMode = options?.deliveryMode ?? 'inline';
+    this.dedupWindowMs = options?.dedupWindowMs ?? DEFAULT_DEDUP_WINDOW_MS;
+    this.durableRetries = options?.durableRetries ?? false;
+    this.publishMiddleware = [...options?.publishMiddleware ?? []];
+    this.consumerId = options?.consumerId ?? defaultConsumerId();
+    this.leaseMs = options?.leaseMs ?? DEFAULT_LEASE_MS;
+    this.priorityAgingMs = options?.priorityAgingMs ?? DEFAULT_PRIORITY_AGING_MS;
+    this.worker = new DispatchWorker(
+      this.store,
+      (event) => this.dispatchTracked(event),
+      { ...options, consumerId: this.consumerId, leaseMs: this.leaseMs },
+      () => [...this.handlers.keys()],
+    );
+    this.scheduler = new Scheduler(this.store, (schedule, scheduledFor) => {
+      const inserted = this.insertEvent({
+        type: schedule.eventType,
+        payload: schedule.payload,
+        metadata: { ...schedule.metadata, schedule: schedule.name, scheduledFor: scheduledFor.toISOString() },
+      }, false);
+      this.lifecycle.emit('published', { event: inserted.event! });
+      this.worker.wake();
+    }, options);
+
+    // Keep leases on our in-flight events alive; a sibling takes them over only if we stop renewing
+    this.heartbeat = setInterval(
+      () => this.store.renewLeases(this.consumerId, this.leaseExpiry()),
+      Math.max(1, Math.floor(this.leaseMs / 3)),
+    );
+    this.heartbeat.unref();
+
+    this.watchCursor = this.store.getLastEventSeq();
+    if (options?.watchIntervalMs != null) {
+      this.watcher = new ChangeWatcher(this.store, () => this.deliverForeignEvents(), options.watchIntervalMs);
+    }
+  }
+
+  /**
+   * Listen to a lifecycle event: published, dispatched, handlerFailed, retryScheduled, deadLettered,
+   * circuitOpened, circuitClosed, recovered or shutdown. Returns a function that removes the listener.
+   * Listeners are observers only: one that throws or rejects is logged and dispatch carries on.
+   */
+  on<K extends BusLifecycleEvent>(name: K, listener: LifecycleListener<K>): () => void {
+    return this.lifecycle.on(name, listener);
+  }
+
+  off<K extends BusLifecycleEvent>(name: K, listener: LifecycleListener<K>): void {
+    this.lifecycle.off(name, listener);
+  }
+
+  /**
+   * Add publish middleware, run after the ones registered before it on every publish, publishMany
+   * entry and transaction publish (including handlers' `context.publish`), but not on schedule ticks.
+   * It can validate or enrich the input (mutate it or return a replacement); throwing rejects the
+   * publish — the whole batch or transaction — before anything is inserted.
+   */
+  usePublish(middleware: PublishMiddleware): void {
+    this.publishMiddleware.push(middleware);
   }
 
-  /** CHK-004: Register handler with optional filter by event type. Returns subscription ID. */
-  subscribe(eventType: string, handler: EventHandler, options?: SubscribeOptions): string;
-  subscribe(handler: EventHandler, options?: SubscribeOptions): string;
+  /**
+   * Add handler middleware for every subscription: a Koa-style wrapper around each handler
+   * invocation, inside the timeout and the ones registered before it. Per-subscription middleware
+   * (`SubscribeOptions.middleware`) runs inside all of these.
+   */
+  useHandler(middleware: HandlerMiddleware): void {
+    this.dispatcher.useHandler(middleware);
+  }
+
+  /** ID this process writes to `locked_by` when it claims events. */
+  getConsumerId(): string {
+    return this.consumerId;
+  }
+
+  private leaseExpiry(): string {
+    return new Date(Date.now() + this.leaseMs).toISOString();
+  }
+
+  /**
+   * CHK-004: Register handler with optional filter by event type. Returns subscription ID.
+   * With a `{ name, pattern }` spec the subscription is durable: it rebinds to the persisted row of
+   * that name (keeping its ID, deliveries and checkpoint), and start() delivers the matching events
+   * published while no handler was bound. A new durable subscription starts at the current end of the log.
+   */
+  subscribe<P extends string>(eventType: P, handler: EventHandler<EventFor<TEvents, P>>, options?: SubscribeOptions): string;
+  subscribe<P extends string>(
+    named: NamedSubscription<P>,
+    handler: EventHandler<EventFor<TEvents, P>>,
+    options?: SubscribeOptions,
+  ): string;
+  subscribe(handler: EventHandler<EventFor<TEvents, '*'>>, options?: SubscribeOptions): string;
   subscribe(
-    eventTypeOrHandler: string | EventHandler,
-    handlerOrOptions?: EventHandler | SubscribeOptions,
+    target: string | NamedSubscription | EventHandler<never>,
+    handlerOrOptions?: EventHandler<never> | SubscribeOptions,
     maybeOptions?: SubscribeOptions,
   ): string {
     if (this.shuttingDown) throw new EventBusShutdownError();
+    // Typed handlers only ever receive events their pattern matches, so they are stored as untyped ones
+    if (typeof target === 'object') return this.bindNamed(target, handlerOrOptions as EventHandler, maybeOptions);
 
     let eventType: string;
     let handler: EventHandler;
     let options: SubscribeOptions | undefined;
 
-    if (typeof eventTypeOrHandler === 'string') {
-      eventType = eventTypeOrHandler;
+    if (typeof target === 'string') {
+      eventType = target;
       handler = handlerOrOptions as EventHandler;
       options = maybeOptions;
     } else {
       eventType = '*';
-      handler = eventTypeOrHandler;
+      handler = target as EventHandler;
       options = handlerOrOptions as SubscribeOptions | undefined;
     }
+    this.dispatcher.assertRetryPolicy(options?.retry);
 
     const id = randomUUID();
     const now = new Date();
@@ -63,6 +255,7 @@ export class EventBus {
       eventType,
       createdAt: now.toISOString(),
     });
+    this.boundAtSeq.set(id, this.store.getLastEventSeq());
 
     this.handlers.set(id, {
       id,
@@ -71,102 +264,549 @@ export class EventBus {
       createdAt: now,
       timeoutMs: options?.timeoutMs,
       retry: options?.retry,
+      circuitBreaker: options?.circuitBreaker,
+      execution: options?.execution,
+      middleware: options?.middleware,
     });
+    this.dispatcher.getCircuitBreakers().register(this.handlers.get(id)!);
 
     return id;
   }
 
-  /** CHK-005: Remove handler by subscription ID. */
+  private bindNamed(named: NamedSubscription, handler: EventHandler, options?: SubscribeOptions): string {
+    for (const sub of this.handlers.values()) {
+      if (sub.name === named.name) throw new Error(`Subscription "${named.name}" is already bound`);
+    }
+    this.dispatcher.assertRetryPolicy(options?.retry);
+
+    const existing = this.store.getSubscriptionByName(named.name);
+    let id: string;
+    let createdAt: Date;
+    if (existing) {
+      id = existing.id;
+      createdAt = new Date(existing.created_at);
+      if (existing.event_type !== named.pattern) this.store.updateSubscriptionEventType(id, named.pattern);
+    } else {
+      id = randomUUID();
+      createdAt = new Date();
+      this.store.insertSubscription({
+        id,
+        eventType: named.pattern,
+        createdAt: createdAt.toISOString(),
+        name: named.name,
+        position: this.store.getLastEventSeq(),
+      });
+    }
+
+    const sub: Subscription = {
+      id,
+      eventType: named.pattern,
+      handler,
+      createdAt,
+      timeoutMs: options?.timeoutMs,
+      retry: options?.retry,
+      circuitBreaker: options?.circuitBreaker,
+      execution: options?.execution,
+      middleware: options?.middleware,
+      name: named.name,
+    };
+    this.handlers.set(id, sub);
+    this.boundAtSeq.set(id, this.store.getLastEventSeq());
+    this.dispatcher.getCircuitBreakers().register(sub);
+
+    // Bound after start(): catch up now instead of waiting for the next restart
+    if (this.started) {
+      this.catchUp(sub).catch((err) => console.error(JSON.stringify({
+        level: 'error',
+        message: 'durable subscription catch-up failed',
+        subscription_id: id,
+        name: named.name,
+        error: err instanceof Error ? err.message : String(err),
+      })));
+    }
+    return id;
+  }
+
+  /**
+   * CHK-005: Remove handler by subscription ID. Also drops a durable subscription's row and checkpoint,
+   * and expires the subscription's pending and parked deliveries; events parked on them are requeued to settle.
+   */
   unsubscribe(subscriptionId: string): void {
     this.handlers.delete(subscriptionId);
-    this.store.deleteSubscription(subscriptionId);
+    this.boundAtSeq.delete(subscriptionId);
+    if (this.store.deleteSubscription(subscriptionId) > 0) this.worker.wake();
+  }
+
+  /**
+   * CHK-003: Persist event then dispatch; await dispatch completion; return event ID.
+   * In `background` delivery mode, returns as soon as the row is committed and wakes the worker.
+   * With `delayMs`/`deliverAt`, the event is persisted now and dispatched by the worker once due.
+   * With `orderingKey`, an event queued behind an unfinished earlier one with the same key is likewise
+   * left to the worker, which dispatches it once that one is done or dead-lettered.
+   */
+  async publish<K extends keyof TEvents & string>(
+    eventType: K,
+    payload: TEvents[K],
+    metadata?: Record<string, string>,
+    options?: PublishOptions,
+  ): Promise<string> {
+    return this.publishInput({ type: eventType, payload, metadata, ...options });
+  }
+
+  /** publish() without the event map's checks; backs handlers' `context.publish`. */
+  private async publishInput(input: PublishInput): Promise<string> {
+    if (this.shuttingDown) throw new EventBusShutdownError();
+
+    const inserted = this.insertEvent(this.applyPublishMiddleware(input));
+    await this.dispatchCommitted([inserted]);
+    return inserted.id;
+  }
+
+  /**
+   * Batch publish: insert every event in one transaction (all-or-nothing), then dispatch them in order.
+   * Returns the event IDs in input order. One commit instead of one WAL fsync per event.
+   */
+  async publishMany(inputs: PublishInputFor<TEvents>[]): Promise<string[]> {
+    if (this.shuttingDown) throw new EventBusShutdownError();
+
+    const prepared = inputs.map((input) => this.applyPublishMiddleware(input));
+    const inserted = this.store.transaction(() => prepared.map((input) => this.insertEvent(input)));
+
+    await this.dispatchCommitted(inserted);
+    return inserted.map((i) => i.id);
   }
 
-  /** CHK-003: Persist event then dispatch; await dispatch completion; return event ID. */
-  async publish(eventType: string, payload: unknown, metadata?: Record<string, string>): Promise<string> {
+  /**
+   * Transactional outbox: run `fn` in one SQLite transaction on the bus connection.
+   * Events published through `tx.publish` are inserted atomically with any writes made via `tx.db`,
+   * and dispatched only after commit. If `fn` throws, everything rolls back and nothing is dispatched.
+   */
+  async transaction<T>(fn: (tx: BusTransaction<TEvents>) => T): Promise<T> {
     if (this.shuttingDown) throw new EventBusShutdownError();
 
+    const inserted: Inserted[] = [];
+    let open = true;
+    const tx: BusTransaction<TEvents> = {
+      db: this.store.getDatabase(),
+      publish: (eventType, payload, metadata, options) => {
+        if (!open) throw new Error('BusTransaction used after its transaction completed');
+        const entry = this.insertEvent(this.applyPublishMiddleware({ type: eventType, payload, metadata, ...options }));
+        inserted.push(entry);
+        return entry.id;
+      },
+    };
+
+    let result: T;
+    try {
+      result = this.store.transaction(() => fn(tx));
+    } finally {
+      open = false;
+    }
+
+    await this.dispatchCommitted(inserted);
+    return result;
+  }
+
+  /** Run the publish middleware over a copy of `input` (metadata included), so callers' objects are left as they were. */
+  private applyPublishMiddleware(input: PublishInput): PublishInput {
+    let current: PublishInput = { ...input, metadata: input.metadata && { ...input.metadata } };
+    for (const middleware of this.publishMiddleware) current = middleware(current) ?? current;
+    return current;
+  }
+
+  /**
+   * Insert an event row. When the caller dispatches inline, a due event is inserted already
+   * `processing` so the worker never claims it — unless an earlier event with its ordering key is
+   * unfinished; otherwise it is left `pending` for the worker.
+   * With an idempotency key seen inside the dedup window, nothing is inserted and the earlier ID is returned.
+   */
+  private insertEvent(input: PublishInput, dispatchInline = this.deliveryMode === 'inline'): Inserted {
+    if (input.idempotencyKey == null) return this.insertEventRow(input, dispatchInline);
+
+    const key = input.idempotencyKey;
+    return this.store.transaction(() => {
+      const now = new Date();
+      this.purgeExpiredDedupKeys(now);
+
+      const existingId = this.store.getDedupEventId(key, now.toISOString());
+      if (existingId) return { id: existingId, event: null, claimed: false };
+
+      const inserted = this.insertEventRow(input, dispatchInline);
+      this.store.insertDedupKey(
+        key,
+        inserted.id,
+        now.toISOString(),
+        new Date(now.getTime() + this.dedupWindowMs).toISOString(),
+      );
+      return inserted;
+    });
+  }
+
+  private insertEventRow(input: PublishInput, dispatchInline: boolean): Inserted {
+    if (input.orderingKey == null) return this.insertEventRowUnchecked(input, dispatchInline);
+    // An earlier event with the key is unfinished: leave this one pending; the worker claims it in turn
+    const key = input.orderingKey;
+    return this.store.transaction(() =>
+      this.insertEventRowUnchecked(input, dispatchInline && !this.store.hasUnfinishedOrderingKey(key)));
+  }
+
+  private insertEventRowUnchecked(input: PublishInput, dispatchInline: boolean): Inserted {
     const id = randomUUID();
-    const now = new Date().toISOString();
+    const now = new Date();
+    const createdAt = now.toISOString();
+    const availableAt = resolveAvailableAt(input, now);
+    const expiresAt = resolveExpiresAt(input, now);
+    const due = availableAt.getTime() <= now.getTime();
+    if (input.priority != null && !Number.isSafeInteger(input.priority)) {
+      throw new TypeError(`priority must be an integer, got ${input.priority}`);
+    }
 
+    const claimed = due && dispatchInline;
     this.store.insertEvent({
       id,
-      type: eventType,
-      payload,
-      status: 'pending',
+      type: input.type,
+      payload: input.payload,
+      status: claimed ? 'processing' : 'pending',
       retryCount: 0,
-      createdAt: now,
-      updatedAt: now,
-      metadata: metadata ?? null,
+      createdAt,
+      updatedAt: createdAt,
+      metadata: input.metadata ?? null,
+      availableAt: availableAt.toISOString(),
+      lockedBy: claimed ? this.consumerId : null,
+      leaseExpiresAt: claimed ? this.leaseExpiry() : null,
+      orderingKey: input.orderingKey ?? null,
+      priority: input.priority,
+      expiresAt: expiresAt?.toISOString() ?? null,
     });
 
     const event: Event = {
       id,
-      type: eventType,
-      payload,
-      createdAt: new Date(now),
+      type: input.type,
+      payload: input.payload,
+      createdAt: now,
       status: 'pending',
       retryCount: 0,
-      metadata,
+      metadata: input.metadata,
+      orderingKey: input.orderingKey,
+      priority: input.priority ?? 0,
+      expiresAt,
     };
+    if (!due) event.availableAt = availableAt;
+    return { id, event, claimed };
+  }
+
+  /** Drop expired idempotency keys, at most once per DEDUP_PURGE_INTERVAL_MS. */
+  private purgeExpiredDedupKeys(now: Date): void {
+    if (now.getTime() - this.lastDedupPurgeAt < DEDUP_PURGE_INTERVAL_MS) return;
+    this.lastDedupPurgeAt = now.getTime();
+    this.store.purgeExpiredDedupKeys(now.toISOString());
+  }
+
+  /**
+   * Hand committed events to delivery: dispatch claimed ones inline in publish order, leave the rest
+   * (delayed, or held back by their ordering key) to the worker. Deduplicated publishes inserted
+   * nothing and are not dispatched again.
+   */
+  private async dispatchCommitted(inserted: Inserted[]): Promise<void> {
+    const fresh = inserted.filter((i) => i.event !== null);
+    if (fresh.length === 0) return;
+    for (const { event } of fresh) this.lifecycle.emit('published', { event: event! });
+    if (this.deliveryMode === 'background' || fresh.some((i) => !i.claimed)) {
+      this.worker.wake(); // reschedule around new rows / an earlier due time
+    }
+    if (this.deliveryMode === 'background') return;
+
+    for (const { event, claimed } of fresh) {
+      if (claimed) await this.dispatchTracked(event!);
+    }
+  }
 
-    // Track in-flight dispatch for graceful shutdown
-    const dispatchPromise = this.dispatcher.dispatch(event, this.handlers);
+  /** Dispatch and track the promise as in-flight for graceful shutdown. */
+  private dispatchTracked(event: Event, subscriptions = this.handlers): Promise<void> {
+    const startedAt = Date.now();
+    const dispatchPromise = this.dispatcher.dispatch(event, subscriptions)
+      .then(() => this.emitDispatched(event, startedAt));
     this.inFlight.add(dispatchPromise);
-    dispatchPromise.finally(() => this.inFlight.delete(dispatchPromise));
+    const settle = () => {
+      this.inFlight.delete(dispatchPromise);
+      // A durable retry may have just been scheduled, or a later event with the same ordering key
+      // unblocked — let the worker re-plan its next wake-up
+      if (this.durableRetries || event.orderingKey != null) this.worker.wake();
+    };
+    // Both branches handled: a failed dispatch rejects only the returned promise, which the caller handles
+    dispatchPromise.then(settle, settle);
+    return dispatchPromise;
+  }
 
-    await dispatchPromise;
-    return id;
+  private emitDispatched(event: Event, startedAt: number): void {
+    if (!this.lifecycle.hasListeners('dispatched')) return;
+    let status: EventStatus | undefined;
+    try {
+      status = this.store.getEvent(event.id)?.status as EventStatus | undefined;
+    } catch {
+      return; // closed under an abandoned dispatch
+    }
+    if (status) this.lifecycle.emit('dispatched', { event, status, durationMs: Date.now() - startedAt });
+  }
+
+  /**
+   * Deliver to a durable subscription the matching events it has no delivery for, from its checkpoint on.
+   * Only events that finished dispatching (done/dlq) and have not expired are replayed — pending ones
+   * never dispatched still reach the subscription through the normal flow now that it is bound, while
+   * ones already dispatched (e.g. waiting on a retry) keep their delivery set and are left to a later
+   * catch-up. The checkpoint advances over every event up to the first one that is still in flight or
+   * could not be delivered (e.g. open circuit).
+   * Returns the number of events delivered.
+   */
+  private async catchUp(sub: Subscription): Promise<number> {
+    if (this.shuttingDown) return 0;
+    const row = this.store.getSubscription(sub.id);
+    if (!row) return 0;
+
+    this.catchingUp.add(sub.id);
+    try {
+      const { delivered } = await this.replay(
+        row.position,
+        (eventRow) => (matchGlob(sub.eventType, eventRow.type) ? [sub] : []),
+        (seq) => this.store.setSubscriptionPosition(sub.id, seq),
+      );
+      return delivered;
+    } finally {
+      this.catchingUp.delete(sub.id);
+    }
+  }
+
+  /**
+   * Watcher callback: deliver events committed by other processes to local subscriptions.
+   * A subscription only sees events inserted after it was bound; durable ones still catching up are skipped.
+   * The cursor moves past events still in flight elsewhere (e.g. delayed, or not claimed yet); they are
+   * kept aside and re-checked on every poll until delivered, so the log tail is never rescanned.
+   */
+  private async deliverForeignEvents(): Promise<void> {
+    const eligible = (sub: Subscription, eventRow: EventRow) =>
+      this.handlers.has(sub.id)
+      && !this.catchingUp.has(sub.id)
+      && eventRow.seq > (this.boundAtSeq.get(sub.id) ?? Infinity)
+      && matchGlob(sub.eventType, eventRow.type);
+    const targets = (eventRow: EventRow) => [...this.handlers.values()].filter((sub) => eligible(sub, eventRow));
+
+    for (const eventId of [...this.watchDeferred]) {
+      if (this.shuttingDown) return;
+      const eventRow = this.store.getEvent(eventId);
+      const outcome = eventRow ? await this.replayEvent(eventRow, targets(eventRow)) : 'skipped';
+      if (outcome !== 'blocked') this.watchDeferred.delete(eventId);
+    }
+
+    await this.replay(
+      this.watchCursor,
+      targets,
+      (seq) => { this.watchCursor = seq; },
+      (eventRow) => { this.watchDeferred.add(eventRow.id); },
+    );
+  }
+
+  /**
+   * Scan events after `from` in insertion order and deliver each finished (done/dlq) one to the
+   * subscriptions `targets` returns that have no completed delivery for it yet — per-delivery
+   * tracking makes this safe to repeat. `onAdvance` is called for every seq up to which all
+   * targeted events have been handled. An event still in flight elsewhere or that could not be
+   * delivered is handed to `onBlocked` if given; without it, advancing stops at that event.
+   */
+  private async replay(
+    from: number,
+    targets: (eventRow: EventRow) => Subscription[],
+    onAdvance: (seq: number) => void,
+    onBlocked?: (eventRow: EventRow) => void,
+  ): Promise<{ delivered: number }> {
+    let cursor = from;
+    let advancing = true;
+    let delivered = 0;
+
+    while (!this.shuttingDown) {
+      const batch = this.store.getEventsAfter(cursor, CATCH_UP_BATCH_SIZE);
+      if (batch.length === 0) break;
+
+      for (const eventRow of batch) {
+        cursor = eventRow.seq;
+        const outcome = await this.replayEvent(eventRow, targets(eventRow));
+        if (this.shuttingDown) return { delivered }; // the store closes once in-flight dispatches settle
+        if (outcome === 'delivered') delivered++;
+        if (outcome === 'blocked') {
+          if (onBlocked) onBlocked(eventRow);
+          else advancing = false;
+        }
+        if (advancing) onAdvance(eventRow.seq);
+      }
+    }
+
+    return { delivered };
+  }
+
+  /**
+   * Deliver one scanned event to those of `subs` without a completed delivery. `blocked` when it is
+   * still pending/processing elsewhere, or some of them still lack a delivery afterwards (e.g. open circuit).
+   */
+  private async replayEvent(eventRow: EventRow, subs: Subscription[]): Promise<'delivered' | 'blocked' | 'skipped'> {
+    if (subs.length === 0) return 'skipped';
+    if (eventRow.status === 'pending' || eventRow.status === 'processing') return 'blocked';
+    if (eventRow.status === 'expired' || (eventRow.expires_at != null && Date.parse(eventRow.expires_at) <= Date.now())) {
+      return 'skipped'; // too late for a subscriber that missed it — nothing to deliver
+    }
+
+    const missing = subs.filter((sub) => this.needsDelivery(eventRow.id, sub.id));
+    if (missing.length === 0) return 'skipped';
+    this.store.leaseEvent(eventRow.id, this.consumerId, this.leaseExpiry());
+    this.store.ensureDeliveries(eventRow.id, missing.map((sub) => sub.id));
+    await this.dispatchTracked(toEvent(eventRow), new Map(missing.map((sub) => [sub.id, sub])));
+    if (this.shuttingDown) return 'blocked';
+    return missing.some((sub) => this.needsDelivery(eventRow.id, sub.id)) ? 'blocked' : 'delivered';
+  }
+
+  private needsDelivery(eventId: string, subscriptionId: string): boolean {
+    const delivery = this.store.getDelivery(eventId, subscriptionId);
+    return !delivery || delivery.status === 'pending';
+  }
+
+  /**
+   * Durable subscriptions with no handler bound in this process (e.g. left over from an earlier run).
+   * Anonymous ones can never be rebound, so they are not reported; shutdown() drops their rows.
+   */
+  getOrphanedSubscriptions(): SubscriptionRow[] {
+    return this.store.getAllSubscriptions()
+      .filter((row) => row.name != null && !this.handlers.has(row.id))
+      .map((row) => ({
+        id: row.id,
+        eventType: row.event_type,
+        createdAt: new Date(row.created_at),
+        name: row.name ?? undefined,
+      }));
+  }
+
+  // --- Recurring schedules ---
+
+  /**
+   * Register a recurring schedule (cron or fixed interval) that publishes `eventType` on each tick.
+   * Registering an existing name updates it in place. Ticks fire once start() has been called.
+   */
+  schedule(options: ScheduleOptions): string {
+    if (this.shuttingDown) throw new EventBusShutdownError();
+    return this.scheduler.register(options);
+  }
+
+  listSchedules(): Schedule[] {
+    return this.scheduler.list();
+  }
+
+  pauseSchedule(scheduleId: string): void {
+    this.scheduler.pause(scheduleId);
+  }
+
+  resumeSchedule(scheduleId: string): void {
+    this.scheduler.resume(scheduleId);
+  }
+
+  removeSchedule(scheduleId: string): void {
+    this.scheduler.remove(scheduleId);
   }
 
   /**
    * CHK-012: Graceful shutdown.
-   * 1. Stop accepting new publishes (throw EventBusShutdownError)
-   * 2. Wait for in-flight dispatches (with timeout)
-   * 3. Close SQLite connection
+   * 1. Stop accepting new publishes (throw EventBusShutdownError) and stop the worker claiming rows
+   * 2. Wait for in-flight dispatches (with timeout); on timeout, abort the signals of handlers still running
+   * 3. Drop the rows of anonymous subscriptions, close SQLite connection, then emit `shutdown`
    */
   async shutdown(): Promise<void> {
     if (this.shuttingDown) return; // idempotent
     this.shuttingDown = true;
+    this.worker.stop();
+    this.scheduler.stop();
+    this.watcher?.stop();
 
     // Wait for all in-flight dispatches, with timeout
+    let drained = true;
     if (this.inFlight.size > 0) {
-      const drain = Promise.allSettled([...this.inFlight]);
-      const timeout = new Promise<void>((resolve) =>
-        setTimeout(resolve, this.shutdownTimeoutMs),
+      const drain = Promise.allSettled([...this.inFlight]).then(() => true);
+      const timeout = new Promise<boolean>((resolve) =>
+        setTimeout(() => resolve(false), this.shutdownTimeoutMs),
       );
-      await Promise.race([drain, timeout]);
+      drained = await Promise.race([drain, timeout]);
+      if (!drained) this.dispatcher.abortAll(new EventBusShutdownError());
     }
 
+    // Leases of dispatches abandoned by the timeout lapse, and a sibling process recovers them
+    clearInterval(this.heartbeat);
+    // Anonymous subscriptions cannot be rebound by a later run: drop their rows and expire their
+    // unfinished deliveries (durable ones keep theirs)
+    this.store.transaction(() => {
+      for (const sub of this.handlers.values()) {
+        if (sub.name == null) this.store.deleteSubscription(sub.id);
+      }
+    });
     this.store.close();
+    this.lifecycle.emit('shutdown', { drained });
   }
 
   /**
-   * CHK-013: Startup recovery — re-dispatch events stuck in 'processing'.
-   * 1. Query events with status 'processing'
-   * 2. Reset to 'pending' (increment retry_count)
-   * 3. Re-dispatch through normal flow
+   * CHK-013: Startup recovery — a full sweep of events an earlier run left unfinished.
+   * 0. Requeue deliveries parked behind circuits that were open in the earlier run; breakers start closed
+   * 1. Take over 'processing' rows whose lease expired — rows leased by a live sibling process are left alone.
+   *    The lost attempt counts against the retry budget, so deliveries that already used it up go to
+   *    the DLQ instead of running again (a handler that crashes the process cannot loop forever)
+   * 2. Claim due 'pending' rows that were committed but never dispatched
+   * 3. Re-dispatch both through the normal flow — highest (aged) priority first — under our own lease,
+   *    resuming the stored error history
+   * In `background` delivery mode, stuck events are only released back to pending and left to the
+   * worker along with the pending ones. Returns a summary of what was recovered.
+   * Then each bound durable subscription catches up on events published while it was offline, and
+   * durable subscriptions with no bound handler are reported with a warning — bind durable
+   * subscriptions before calling start(); drop stale rows with unsubscribe(id).
+   * Finally starts the worker, which claims pending rows once due — including delayed events
+   * whose time passed while the process was down — and the recurring-schedule scheduler, and emits `recovered`.
    */
-  async start(): Promise<void> {
-    const stuckEvents = this.store.getEventsByStatus('processing');
-    for (const row of stuckEvents) {
-      // Increment retry count to account for the crashed attempt
-      const newRetryCount = row.retry_count + 1;
-      this.store.updateEventRetry(row.id, newRetryCount, row.last_error ?? '');
-      // Reset to pending
-      this.store.updateEventStatus(row.id, 'pending');
+  async start(): Promise<RecoverySummary> {
+    const summary: RecoverySummary = { processing: 0, pending: 0, delivered: 0, deadLettered: 0, deferred: 0 };
+    this.store.releaseParkedDeliveries(null);
+    const stuckEvents = this.store.recoverExpiredLeases(this.consumerId, this.leaseExpiry());
+    summary.processing = stuckEvents.length;
+    if (this.deliveryMode === 'background') {
+      for (const row of stuckEvents) this.store.releaseEvent(row.id);
+      summary.deferred = stuckEvents.length;
+    } else {
+      const unsent = this.store.claimPendingEvents(
+        -1, this.consumerId, this.leaseExpiry(), this.priorityAgingMs, [...this.handlers.keys()],
+      );
+      summary.pending = unsent.length;
+      const backlog = [...stuckEvents, ...unsent].sort(byClaimOrder(Date.now(), this.priorityAgingMs));
+      for (const row of backlog) {
+        await this.dispatchTracked(toEvent(row));
+        if (this.shuttingDown) return summary; // shutdown() closes the store once dispatches settle
+        const status = this.store.getEvent(row.id)?.status;
+        if (status === 'done') summary.delivered++;
+        else if (status === 'dlq') summary.deadLettered++;
+        else summary.deferred++;
+      }
+    }
 
-      // Build Event object and re-dispatch
-      const event: Event = {
-        id: row.id,
-        type: row.type,
-        payload: JSON.parse(row.payload),
-        createdAt: new Date(row.created_at),
-        status: 'pending',
-        retryCount: newRetryCount,
-      };
-      await this.dispatcher.dispatch(event, this.handlers);
+    for (const orphan of this.getOrphanedSubscriptions()) {
+      console.warn(JSON.stringify({
+        level: 'warn',
+        message: 'orphaned subscription: no handler bound',
+        subscription_id: orphan.id,
+        name: orphan.name ?? null,
+        event_type: orphan.eventType,
+      }));
     }
+    for (const sub of [...this.handlers.values()]) {
+      if (sub.name != null) await this.catchUp(sub);
+    }
+    if (this.shuttingDown) return summary;
+
+    this.started = true;
+    this.worker.start();
+    this.scheduler.start();
+    this.watcher?.start();
+    this.lifecycle.emit('recovered', summary);
+    return summary;
   }
 
   getHandlers(): Map<string, Subscription> {
@@ -177,8 +817,38 @@ export class EventBus {
     return this.store;
   }
 
-  /** Raw close for test teardown. Guards double-close after shutdown(). */
+  /** Per-subscription circuit breakers: inspect state and failure rate, force open/closed, reset. */
+  getCircuitBreakers(): CircuitBreakers {
+    return this.dispatcher.getCircuitBreakers();
+  }
+
+  /** Raw close for test teardown. Guards double-close after shutdown(). Aborts running handlers' signals. */
   destroy(): void {
+    this.dispatcher.abortAll(new EventBusShutdownError());
+    clearInterval(this.heartbeat);
+    this.watcher?.stop();
+    this.worker.stop();
+    this.scheduler.stop();
     this.store.close();
   }
 }
+
+/** Resolve `deliverAt`/`delayMs` into the instant the event becomes eligible for dispatch. */
+function resolveAvailableAt(options: PublishOptions, now: Date): Date {
+  if (options.deliverAt != null && options.delayMs != null) {
+    throw new TypeError('Pass either deliverAt or delayMs, not both');
+  }
+  if (options.deliverAt != null) return new Date(options.deliverAt);
+  if (options.delayMs != null && options.delayMs > 0) return new Date(now.getTime() + options.delayMs);
+  return now;
+}
+
+/** Resolve `expiresAt`/`ttlMs` into the instant after which the event is dropped, if any. */
+function resolveExpiresAt(options: PublishOptions, now: Date): Date | undefined {
+  if (options.expiresAt != null && options.ttlMs != null) {
+    throw new TypeError('Pass either expiresAt or ttlMs, not both');
+  }
+  if (options.expiresAt != null) return new Date(options.expiresAt);
+  if (options.ttlMs != null) return new Date(now.getTime() + options.ttlMs);
+  return undefined;
+}
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventBus } from './index.js';
+import type { BusLifecycleEvent } from './index.js';
+import { PermanentError } from '../dispatcher/index.js';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+function createTmpDbPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lifecycle-test-'));
+  return path.join(dir, 'test.db');
+}
+
+function cleanupDb(dbPath: string): void {
+  try { fs.rmSync(path.dirname(dbPath), { recursive: true, force: true }); } catch { /* */ }
+}
+
+const ALL_EVENTS: BusLifecycleEvent[] = [
+  'published', 'dispatched', 'handlerFailed', 'retryScheduled', 'deadLettered',
+  'circuitOpened', 'circuitClosed', 'recovered', 'shutdown',
+];
+
+describe('EventBus — lifecycle events', () => {
+  let dbPath: string;
+  let bus: EventBus | undefined;
+  let seen: { name: BusLifecycleEvent; payload: unknown }[];
+
+  beforeEach(() => {
+    dbPath = createTmpDbPath();
+    seen = [];
+  });
+
+  afterEach(() => {
+    bus?.destroy();
+    bus = undefined;
+    cleanupDb(dbPath);
+  });
+
+  function record(target: EventBus): void {
+    for (const name of ALL_EVENTS) target.on(name, (payload) => { seen.push({ name, payload }); });
+  }
+
+  it('reports publish, each failed attempt, the retry and the dead letter, then the dispatch', async () => {
+    bus = new EventBus(dbPath, { delayFn: async () => {}, logFn: () => {} });
+    record(bus);
+    const subId = bus.subscribe('order.placed', async () => { throw new Error('boom'); }, {
+      retry: { maxRetries: 1, baseDelayMs: 10, backoff: 'fixed' },
+    });
+
+    const eventId = await bus.publish('order.placed', { id: 1 });
+
+    expect(seen.map((s) => s.name)).toEqual([
+      'published', 'handlerFailed', 'retryScheduled', 'handlerFailed', 'deadLettered', 'dispatched',
+    ]);
+    const [published, firstFailure, retry, lastFailure, dead, dispatched] = seen.map((s) => s.payload);
+    expect(published).toMatchObject({ event: { id: eventId, type: 'order.placed', payload: { id: 1 } } });
+    expect(firstFailure).toMatchObject({
+      subscriptionId: subId, attempt: 1, maxAttempts: 2, error: expect.any(Error), message: 'boom', retryable: true, willRetry: true,
+    });
+    expect(retry).toMatchObject({ subscriptionId: subId, attempt: 2, delayMs: 10, durable: false });
+    expect(lastFailure).toMatchObject({ attempt: 2, willRetry: false });
+    expect(dead).toMatchObject({ subscriptionId: subId, attempts: 2, errors: ['boom', 'boom'] });
+    expect(dispatched).toMatchObject({ event: { id: eventId }, status: 'dlq', durationMs: expect.any(Number) });
+  });
+
+  it('a non-retryable failure goes straight to deadLettered; deduplicated publishes are not reported', async () => {
+    bus = new EventBus(dbPath, { logFn: () => {} });
+    record(bus);
+    bus.subscribe('order.placed', async () => { throw new PermanentError('invalid'); });
+
+    await bus.publish('order.placed', {}, undefined, { idempotencyKey: 'k' });
+    await bus.publish('order.placed', {}, undefined, { idempotencyKey: 'k' });
+
+    expect(seen.map((s) => s.name)).toEqual(['published', 'handlerFailed', 'deadLettered', 'dispatched']);
+    expect(seen[1].payload).toMatchObject({ retryable: false, willRetry: false });
+  });
+
+  it('reports circuit transitions and still calls onCircuitTransition', async () => {
+    const transitions: string[] = [];
+    bus = new EventBus(dbPath, { onCircuitTransition: (t) => transitions.push(`${t.from}->${t.to}`) });
+    record(bus);
+    const subId = bus.subscribe('order.*', async () => {});
+
+    bus.getCircuitBreakers().forceOpen(subId);
+    bus.getCircuitBreakers().reset(subId);
+
+    expect(seen.map((s) => s.name)).toEqual(['circuitOpened', 'circuitClosed']);
+    expect(seen[0].payload).toMatchObject({ subscriptionId: subId, reason: 'forced-open' });
+    expect(seen[1].payload).toMatchObject({ subscriptionId: subId, reason: 'reset' });
+    expect(transitions).toEqual(['closed->open', 'open->closed']);
+  });
+
+  it('reports the recovery summary from start() and the end of shutdown()', async () => {
+    bus = new EventBus(dbPath);
+    record(bus);
+
+    const summary = await bus.start();
+    await bus.shutdown();
+
+    expect(seen).toEqual([
+      { name: 'recovered', payload: summary },
+      { name: 'shutdown', payload: { drained: true } },
+    ]);
+  });
+
+  it('throwing or rejecting listeners are logged and never affect dispatch', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      bus = new EventBus(dbPath, { delayFn: async () => {}, logFn: () => {} });
+      for (const name of ALL_EVENTS) {
+        bus.on(name, () => { throw new Error(`${name} listener broke`); });
+        bus.on(name, async () => { throw new Error(`${name} listener rejected`); });
+      }
+      let calls = 0;
+      bus.subscribe('order.placed', async () => {
+        if (++calls === 1) throw new Error('transient');
+      });
+
+      const eventId = await bus.publish('order.placed', {});
+      await new Promise((r) => setTimeout(r, 0));
+
+      expect(calls).toBe(2);
+      expect(bus.getStore().getEvent(eventId)?.status).toBe('done');
+      const logged = errorSpy.mock.calls.map(([line]) => JSON.parse(line as string));
+      expect(logged).toContainEqual(expect.objectContaining({
+        message: 'lifecycle listener failed', lifecycle_event: 'retryScheduled', error: 'retryScheduled listener broke',
+      }));
+      expect(logged).toContainEqual(expect.objectContaining({
+        lifecycle_event: 'dispatched', error: 'dispatched listener rejected',
+      }));
+    } finally {
+      errorSpy.mockRestore();
+    }
+  });
+
+  it('off() and the function returned by on() remove a listener', async () => {
+    bus = new EventBus(dbPath);
+    const a: string[] = [];
+    const b: string[] = [];
+    const listenerA = () => { a.push('published'); };
+    bus.on('published', listenerA);
+    const removeB = bus.on('published', () => { b.push('published'); });
+
+    await bus.publish('order.placed', {});
+    bus.off('published', listenerA);
+    removeB();
+    await bus.publish('order.placed', {});
+
+    expect(a).toEqual(['published']);
+    expect(b).toEqual(['published']);
+  });
+});
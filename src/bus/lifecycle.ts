@@ -0,0 +1,75 @@
+import type { CircuitTransition, DeadLetteredInfo, HandlerFailedInfo, RetryScheduledInfo } from '../dispatcher/index.js';
+import type { Event, EventStatus } from '../types/index.js';
+import type { RecoverySummary } from './index.js';
+
+/** Payload of each EventBus lifecycle event, by name. */
+export interface BusLifecycleEvents {
+  /** An event was committed (publish, publishMany, transaction or a schedule tick); not fired for deduplicated publishes */
+  published: { event: Event };
+  /** One dispatch pass finished; `status` is where it left the event (done, dlq, parked, pending for a retry, ...) */
+  dispatched: { event: Event; status: EventStatus; durationMs: number };
+  handlerFailed: HandlerFailedInfo;
+  retryScheduled: RetryScheduledInfo;
+  /** One subscription's delivery went to the DLQ */
+  deadLettered: DeadLetteredInfo;
+  circuitOpened: CircuitTransition;
+  circuitClosed: CircuitTransition;
+  /** start() finished its recovery sweep */
+  recovered: RecoverySummary;
+  /** shutdown() closed the bus; `drained` is false when it stopped waiting for in-flight dispatches */
+  shutdown: { drained: boolean };
+}
+
+export type BusLifecycleEvent = keyof BusLifecycleEvents;
+
+export type LifecycleListener<K extends BusLifecycleEvent> = (payload: BusLifecycleEvents[K]) => void | Promise<void>;
+
+/**
+ * Listeners for bus lifecycle events. Listeners run synchronously, in registration order, on the
+ * path that raised the event; one that throws or rejects is logged and ignored, so an observer can
+ * never change the outcome of a publish or dispatch.
+ */
+export class LifecycleEmitter {
+  private listeners = new Map<BusLifecycleEvent, Set<LifecycleListener<never>>>();
+
+  /** Register a listener; returns a function that removes it. */
+  on<K extends BusLifecycleEvent>(name: K, listener: LifecycleListener<K>): () => void {
+    let set = this.listeners.get(name);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(name, set);
+    }
+    set.add(listener as LifecycleListener<never>);
+    return () => this.off(name, listener);
+  }
+
+  off<K extends BusLifecycleEvent>(name: K, listener: LifecycleListener<K>): void {
+    this.listeners.get(name)?.delete(listener as LifecycleListener<never>);
+  }
+
+  hasListeners(name: BusLifecycleEvent): boolean {
+    return (this.listeners.get(name)?.size ?? 0) > 0;
+  }
+
+  emit<K extends BusLifecycleEvent>(name: K, payload: BusLifecycleEvents[K]): void {
+    const set = this.listeners.get(name);
+    if (!set) return;
+    for (const listener of [...set] as LifecycleListener<K>[]) {
+      try {
+        const result = listener(payload);
+        if (result instanceof Promise) result.catch((err) => logListenerFailure(name, err));
+      } catch (err) {
+        logListenerFailure(name, err);
+      }
+    }
+  }
+}
+
+function logListenerFailure(name: BusLifecycleEvent, err: unknown): void {
+  console.error(JSON.stringify({
+    level: 'error',
+    message: 'lifecycle listener failed',
+    lifecycle_event: name,
+    error: err instanceof Error ? err.message : String(err),
+  }));
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EventBus } from './index.js';
+import type { Event, HandlerMiddleware } from '../types/index.js';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+function createTmpDbPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'middleware-test-'));
+  return path.join(dir, 'test.db');
+}
+
+function cleanupDb(dbPath: string): void {
+  try { fs.rmSync(path.dirname(dbPath), { recursive: true, force: true }); } catch { /* */ }
+}
+
+describe('EventBus — publish middleware', () => {
+  let dbPath: string;
+  let bus: EventBus | undefined;
+
+  beforeEach(() => {
+    dbPath = createTmpDbPath();
+  });
+
+  afterEach(() => {
+    bus?.destroy();
+    bus = undefined;
+    cleanupDb(dbPath);
+  });
+
+  it('enriches and replaces inputs in order, without touching the caller\'s objects', async () => {
+    bus = new EventBus(dbPath, {
+      publishMiddleware: [(input) => { input.metadata = { ...input.metadata, requestId: 'req-1' }; }],
+    });
+    bus.usePublish((input) => ({ ...input, payload: { wrapped: input.payload } }));
+    const received: Event[] = [];
+    bus.subscribe('order.*', async (event, ctx) => {
+      received.push(event);
+      if (event.type === 'order.placed') await ctx.publish('order.audited', 1);
+    });
+
+    const metadata = { tenant: 'acme' };
+    await bus.publish('order.placed', 42, metadata);
+
+    expect(metadata).toEqual({ tenant: 'acme' });
+    expect(received.map((e) => [e.type, e.payload, e.metadata?.requestId])).toEqual([
+      ['order.placed', { wrapped: 42 }, 'req-1'],
+      ['order.audited', { wrapped: 1 }, 'req-1'], // context.publish goes through the middleware too
+    ]);
+    expect(received[0].metadata?.tenant).toBe('acme');
+  });
+
+  it('a throwing middleware rejects the publish, the whole batch or the whole transaction', async () => {
+    bus = new EventBus(dbPath);
+    bus.usePublish((input) => {
+      if (typeof input.payload !== 'object' || input.payload === null) throw new TypeError(`invalid ${input.type} payload`);
+    });
+    const handled: string[] = [];
+    bus.subscribe(async (event) => { handled.push(event.type); });
+
+    await expect(bus.publish('a', 'nope')).rejects.toThrow('invalid a payload');
+    await expect(bus.publishMany([{ type: 'b', payload: {} }, { type: 'c', payload: 1 }])).rejects.toThrow(TypeError);
+    await expect(bus.transaction((tx) => {
+      tx.publish('d', {});
+      tx.publish('e', null);
+    })).rejects.toThrow('invalid e payload');
+
+    expect(bus.getStore().getEventsAfter(0, 10)).toHaveLength(0);
+    expect(handled).toEqual([]);
+  });
+});
+
+describe('EventBus — handler middleware', () => {
+  let dbPath: string;
+  let bus: EventBus | undefined;
+
+  beforeEach(() => {
+    dbPath = createTmpDbPath();
+  });
+
+  afterEach(() => {
+    bus?.destroy();
+    bus = undefined;
+    cleanupDb(dbPath);
+  });
+
+  const trace = (calls: string[], name: string): HandlerMiddleware => async (_event, _ctx, next) => {
+    calls.push(`${name}:before`);
+    await next();
+    calls.push(`${name}:after`);
+  };
+
+  it('runs global middleware around per-subscription middleware around the handler', async () => {
+    const calls: string[] = [];
+    bus = new EventBus(dbPath, { handlerMiddleware: [trace(calls, 'option')] });
+    bus.useHandler(trace(calls, 'used'));
+    bus.subscribe('order.placed', async (_event, ctx) => { calls.push(`handler:${ctx.attempt}`); }, {
+      middleware: [trace(calls, 'sub')],
+    });
+    bus.subscribe('order.placed', async () => { calls.push('plain'); });
+
+    await bus.publish('order.placed', {});
+
+    expect(calls).toEqual([
+      'option:before', 'used:before', 'sub:before', 'handler:1', 'sub:after', 'used:after', 'option:after',
+      'option:before', 'used:before', 'plain', 'used:after', 'option:after',
+    ]);
+  });
+
+  it('a throwing middleware fails the attempt; one that skips next() settles it without the handler', async () => {
+    bus = new EventBus(dbPath, { delayFn: async () => {}, logFn: () => {} });
+    let handled = 0;
+    const strict = bus.subscribe('order.placed', async () => { handled++; }, { retry: { maxRetries: 1 } });
+    const lenient = bus.subscribe('order.placed', async () => { handled++; });
+    bus.useHandler(async (event, ctx, next) => {
+      if (event.metadata?.tenant !== 'acme') {
+        if (ctx.subscriptionId === strict) throw new Error('tenant not allowed');
+        return; // lenient subscription: drop it
+      }
+      await next();
+    });
+
+    const rejected = await bus.publish('order.placed', {}, { tenant: 'other' });
+    await bus.publish('order.placed', {}, { tenant: 'acme' });
+
+    const store = bus.getStore();
+    expect(handled).toBe(2);
+    expect(store.getDelivery(rejected, strict)?.status).toBe('dlq');
+    expect(store.getDelivery(rejected, lenient)?.status).toBe('done');
+    expect(store.getAttempts(rejected).filter((a) => a.subscription_id === strict).map((a) => a.error_message))
+      .toEqual(['tenant not allowed', 'tenant not allowed']);
+  });
+
+  it('calling next() twice fails the attempt and the handler runs once', async () => {
+    bus = new EventBus(dbPath, { logFn: () => {} });
+    let handled = 0;
+    bus.subscribe('order.placed', async () => { handled++; }, {
+      retry: { maxRetries: 0 },
+      middleware: [async (_event, _ctx, next) => { await next(); await next(); }],
+    });
+
+    const eventId = await bus.publish('order.placed', {});
+
+    expect(handled).toBe(1);
+    expect(bus.getStore().getEvent(eventId)?.status).toBe('dlq');
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EventBus } from './index.js';
+import type { Event } from '../types/index.js';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+function createTmpDbPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ordering-test-'));
+  return path.join(dir, 'test.db');
+}
+
+function cleanupDb(dbPath: string): void {
+  try { fs.rmSync(path.dirname(dbPath), { recursive: true, force: true }); } catch { /* */ }
+}
+
+async function waitFor(cond: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!cond()) {
+    if (Date.now() - start > timeoutMs) throw new Error('waitFor timed out');
+    await new Promise((r) => setTimeout(r, 5));
+  }
+}
+
+describe('EventBus — ordering keys', () => {
+  let dbPath: string;
+  let bus: EventBus | undefined;
+
+  beforeEach(() => {
+    dbPath = createTmpDbPath();
+  });
+
+  afterEach(() => {
+    bus?.destroy();
+    bus = undefined;
+    cleanupDb(dbPath);
+  });
+
+  it('persists the key and passes it to handlers', async () => {
+    bus = new EventBus(dbPath);
+    let seen: string | undefined;
+    bus.subscribe('order.*', async (event) => { seen = event.orderingKey; });
+
+    const id = await bus.publish('order.created', {}, undefined, { orderingKey: 'order-1' });
+    expect(seen).toBe('order-1');
+    expect(bus.getStore().getEvent(id)!.ordering_key).toBe('order-1');
+  });
+
+  it('handles one key in publish order while other keys run concurrently', async () => {
+    bus = new EventBus(dbPath, { deliveryMode: 'background', concurrency: 4, pollIntervalMs: 10 });
+    const log: string[] = [];
+    const activeByKey = new Map<string, number>();
+    let active = 0;
+    let peak = 0;
+    let overlapWithinKey = false;
+    bus.subscribe('order.*', async (event: Event) => {
+      const key = event.orderingKey!;
+      const n = (activeByKey.get(key) ?? 0) + 1;
+      activeByKey.set(key, n);
+      if (n > 1) overlapWithinKey = true;
+      peak = Math.max(peak, ++active);
+      await new Promise((r) => setTimeout(r, 15));
+      log.push(`${key}:${(event.payload as { n: number }).n}`);
+      activeByKey.set(key, n - 1);
+      active--;
+    });
+    await bus.start();
+
+    for (let n = 1; n <= 3; n++) {
+      await bus.publish('order.updated', { n }, undefined, { orderingKey: 'A' });
+      await bus.publish('order.updated', { n }, undefined, { orderingKey: 'B' });
+    }
+    await waitFor(() => log.length === 6);
+
+    expect(overlapWithinKey).toBe(false);
+    expect(peak).toBeGreaterThan(1);
+    expect(log.filter((e) => e.startsWith('A'))).toEqual(['A:1', 'A:2', 'A:3']);
+    expect(log.filter((e) => e.startsWith('B'))).toEqual(['B:1', 'B:2', 'B:3']);
+  });
+
+  it('an earlier event waiting on a durable retry holds back later events with its key', async () => {
+    bus = new EventBus(dbPath, { durableRetries: true, pollIntervalMs: 10, logFn: () => {} });
+    const log: string[] = [];
+    let failedOnce = false;
+    bus.subscribe('order.*', async (event) => {
+      const { n } = event.payload as { n: number };
+      if (n === 1 && !failedOnce) {
+        failedOnce = true;
+        log.push('1:failed');
+        throw new Error('transient');
+      }
+      log.push(String(n));
+    }, { retry: { baseDelayMs: 40 } });
+    await bus.start();
+
+    await bus.publish('order.updated', { n: 1 }, undefined, { orderingKey: 'A' });
+    const second = await bus.publish('order.updated', { n: 2 }, undefined, { orderingKey: 'A' });
+    const other = await bus.publish('order.updated', { n: 3 }, undefined, { orderingKey: 'B' });
+
+    // The unrelated key is not held back; key A's second event waits for the retry
+    expect(log).toEqual(['1:failed', '3']);
+    expect(bus.getStore().getEvent(second)!.status).toBe('pending');
+    expect(bus.getStore().getEvent(other)!.status).toBe('done');
+
+    await waitFor(() => bus!.getStore().getEvent(second)!.status === 'done');
+    expect(log).toEqual(['1:failed', '3', '1', '2']);
+  });
+
+  it('inline publish does not dispatch past an in-flight event with the same key', async () => {
+    bus = new EventBus(dbPath, { pollIntervalMs: 10 });
+    const log: number[] = [];
+    let release!: () => void;
+    const gate = new Promise<void>((r) => { release = r; });
+    bus.subscribe('order.*', async (event) => {
+      const { n } = event.payload as { n: number };
+      if (n === 1) await gate;
+      log.push(n);
+    });
+    await bus.start();
+
+    const first = bus.publish('order.updated', { n: 1 }, undefined, { orderingKey: 'A' });
+    await bus.publish('order.updated', { n: 2 }, undefined, { orderingKey: 'A' });
+    expect(log).toEqual([]);
+
+    release();
+    await first;
+    await waitFor(() => log.length === 2);
+    expect(log).toEqual([1, 2]);
+  });
+
+  it('a dead-lettered event releases its key', async () => {
+    bus = new EventBus(dbPath, { delayFn: async () => {}, logFn: () => {} });
+    const log: number[] = [];
+    bus.subscribe('order.*', async (event) => {
+      const { n } = event.payload as { n: number };
+      if (n === 1) throw new Error('poison');
+      log.push(n);
+    }, { retry: { maxRetries: 1 } });
+    await bus.start();
+
+    const first = await bus.publish('order.updated', { n: 1 }, undefined, { orderingKey: 'A' });
+    await bus.publish('order.updated', { n: 2 }, undefined, { orderingKey: 'A' });
+
+    expect(bus.getStore().getEvent(first)!.status).toBe('dlq');
+    expect(log).toEqual([2]);
+  });
+
+  it('unsubscribing a subscription with a parked delivery settles the event and releases its key', async () => {
+    bus = new EventBus(dbPath, { pollIntervalMs: 10 });
+    const parkedSub = bus.subscribe('order.*', async () => {});
+    await bus.start();
+    bus.getCircuitBreakers().forceOpen(parkedSub);
+
+    const first = await bus.publish('order.updated', {}, undefined, { orderingKey: 'k' });
+    expect(bus.getStore().getEvent(first)!.status).toBe('parked');
+
+    bus.unsubscribe(parkedSub);
+    let calls = 0;
+    bus.subscribe('order.*', async () => { calls++; });
+    const second = await bus.publish('order.updated', {}, undefined, { orderingKey: 'k' });
+
+    await waitFor(() => bus!.getStore().getEvent(second)!.status === 'done');
+    expect(bus.getStore().getEvent(first)!.status).toBe('done');
+    expect(bus.getStore().getDelivery(first, parkedSub)!.status).toBe('expired');
+    expect(calls).toBe(1);
+  });
+});
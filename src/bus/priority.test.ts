@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EventBus } from './index.js';
+import { SQLiteStore } from '../store/index.js';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+function createTmpDbPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'priority-test-'));
+  return path.join(dir, 'test.db');
+}
+
+function cleanupDb(dbPath: string): void {
+  try { fs.rmSync(path.dirname(dbPath), { recursive: true, force: true }); } catch { /* */ }
+}
+
+async function waitFor(cond: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!cond()) {
+    if (Date.now() - start > timeoutMs) throw new Error('waitFor timed out');
+    await new Promise((r) => setTimeout(r, 5));
+  }
+}
+
+describe('EventBus — priorities', () => {
+  let dbPath: string;
+  let bus: EventBus | undefined;
+
+  beforeEach(() => {
+    dbPath = createTmpDbPath();
+  });
+
+  afterEach(() => {
+    bus?.destroy();
+    bus = undefined;
+    cleanupDb(dbPath);
+  });
+
+  it('the background worker drains higher-priority events first', async () => {
+    bus = new EventBus(dbPath, { deliveryMode: 'background', pollIntervalMs: 10 });
+    const order: string[] = [];
+    bus.subscribe('*', async (event) => { order.push(event.type); });
+
+    // Queued before the worker starts, so the worker sees the whole backlog at once
+    for (let i = 0; i < 3; i++) await bus.publish('search.reindex', { i }, undefined, { priority: -5 });
+    await bus.publish('auth.password_reset', {}, undefined, { priority: 10 });
+    await bus.publish('user.updated', {});
+    await bus.start();
+
+    await waitFor(() => order.length === 5);
+    expect(order).toEqual(['auth.password_reset', 'user.updated', 'search.reindex', 'search.reindex', 'search.reindex']);
+  });
+
+  it('start() recovers the backlog highest priority first', async () => {
+    const store = new SQLiteStore(dbPath);
+    const now = new Date().toISOString();
+    const insert = (type: string, status: string, priority: number) => store.insertEvent({
+      id: crypto.randomUUID(), type, payload: {}, status, retryCount: 0, createdAt: now, updatedAt: now, priority,
+    });
+    insert('bulk.stuck', 'processing', 0);
+    insert('bulk.pending', 'pending', 0);
+    insert('urgent.pending', 'pending', 9);
+    store.close();
+
+    bus = new EventBus(dbPath, { delayFn: async () => {} });
+    const order: string[] = [];
+    bus.subscribe('*', async (event) => { order.push(event.type); });
+    await bus.start();
+
+    expect(order).toEqual(['urgent.pending', 'bulk.stuck', 'bulk.pending']);
+  });
+
+  it('persists priority and rejects non-integers', async () => {
+    bus = new EventBus(dbPath);
+    let seen: number | undefined;
+    bus.subscribe('job', async (event) => { seen = event.priority; });
+
+    const id = await bus.publish('job', {}, undefined, { priority: 3 });
+    expect(bus.getStore().getEvent(id)!.priority).toBe(3);
+    expect(seen).toBe(3);
+    await expect(bus.publish('job', {}, undefined, { priority: 1.5 })).rejects.toThrow(TypeError);
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { EventBus } from './index.js';
-import { SQLiteStore } from '../store/index.js';
+import { INTERRUPTED_ATTEMPT_ERROR, SQLiteStore } from '../store/index.js';
 import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
@@ -14,6 +14,14 @@ function cleanupDb(dbPath: string): void {
   try { fs.rmSync(path.dirname(dbPath), { recursive: true, force: true }); } catch { /* */ }
 }
 
+async function waitFor(cond: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!cond()) {
+    if (Date.now() - start > timeoutMs) throw new Error('waitFor timed out');
+    await new Promise((r) => setTimeout(r, 5));
+  }
+}
+
 describe('EventBus.start() — crash recovery (CHK-013)', () => {
   let dbPath: string;
 
@@ -84,9 +92,36 @@ describe('EventBus.start() — crash recovery (CHK-013)', () => {
     bus.destroy();
   });
 
+  it('leaves events leased by a live sibling process alone', async () => {
+    const store = new SQLiteStore(dbPath);
+    const eventId = crypto.randomUUID();
+    const now = new Date().toISOString();
+    store.insertEvent({
+      id: eventId, type: 'test', payload: {}, status: 'processing', retryCount: 0,
+      createdAt: now, updatedAt: now,
+      lockedBy: 'sibling', leaseExpiresAt: new Date(Date.now() + 60_000).toISOString(),
+    });
+    store.close();
+
+    const received: string[] = [];
+    const bus = new EventBus(dbPath, { delayFn: async () => {} });
+    bus.subscribe('test', async (event) => { received.push(event.id); });
+    await bus.start();
+
+    expect(received).toEqual([]);
+    const row = bus.getStore().getEvent(eventId)!;
+    expect(row.status).toBe('processing');
+    expect(row.locked_by).toBe('sibling');
+    expect(row.retry_count).toBe(0);
+
+    bus.destroy();
+  });
+
   it('handles no stuck events gracefully', async () => {
     const bus = new EventBus(dbPath, { delayFn: async () => {} });
-    await expect(bus.start()).resolves.toBeUndefined();
+    await expect(bus.start()).resolves.toEqual({
+      processing: 0, pending: 0, delivered: 0, deadLettered: 0, deferred: 0,
+    });
     bus.destroy();
   });
 
@@ -119,4 +154,175 @@ describe('EventBus.start() — crash recovery (CHK-013)', () => {
 
     bus.destroy();
   });
+
+  it('dispatches pending events that were committed but never dispatched', async () => {
+    const store = new SQLiteStore(dbPath);
+    const eventId = crypto.randomUUID();
+    const now = new Date().toISOString();
+    store.insertEvent({
+      id: eventId, type: 'test', payload: { n: 1 }, status: 'pending', retryCount: 0,
+      createdAt: now, updatedAt: now, metadata: { traceId: 'abc' },
+    });
+    store.close();
+
+    const received: Array<Record<string, string> | undefined> = [];
+    const bus = new EventBus(dbPath, { delayFn: async () => {} });
+    bus.subscribe('test', async (event) => { received.push(event.metadata); });
+    const summary = await bus.start();
+
+    expect(received).toEqual([{ traceId: 'abc' }]);
+    expect(summary).toEqual({ processing: 0, pending: 1, delivered: 1, deadLettered: 0, deferred: 0 });
+    expect(bus.getStore().getEvent(eventId)!.status).toBe('done');
+
+    bus.destroy();
+  });
+
+  it('preserves metadata and appends to the stored error history', async () => {
+    const store = new SQLiteStore(dbPath);
+    const eventId = crypto.randomUUID();
+    const now = new Date().toISOString();
+    store.insertEvent({
+      id: eventId, type: 'test', payload: {}, status: 'processing', retryCount: 1,
+      createdAt: now, updatedAt: now, lastError: '["previous error"]', metadata: { tenant: 't1' },
+    });
+    store.close();
+
+    let calls = 0;
+    let metadata: Record<string, string> | undefined;
+    const bus = new EventBus(dbPath, { delayFn: async () => {} });
+    bus.subscribe('test', async (event) => {
+      metadata = event.metadata;
+      if (++calls === 1) throw new Error('still failing');
+    });
+    await bus.start();
+
+    expect(metadata).toEqual({ tenant: 't1' });
+    const row = bus.getStore().getEvent(eventId)!;
+    expect(row.status).toBe('done');
+    expect(row.retry_count).toBe(3);
+    expect(JSON.parse(row.last_error!)).toEqual(['previous error', INTERRUPTED_ATTEMPT_ERROR, 'still failing']);
+
+    bus.destroy();
+  });
+
+  it('closes attempts left open by the crash as interrupted', async () => {
+    const store = new SQLiteStore(dbPath);
+    const eventId = crypto.randomUUID();
+    const now = new Date().toISOString();
+    store.insertEvent({
+      id: eventId, type: 'test', payload: {}, status: 'processing', retryCount: 0, createdAt: now, updatedAt: now,
+    });
+    store.close();
+
+    const bus = new EventBus(dbPath, { delayFn: async () => {} });
+    const subId = bus.subscribe('test', async () => {});
+    bus.getStore().ensureDeliveries(eventId, [subId]);
+    bus.getStore().startAttempt(eventId, subId, 1, now); // the handler that was running when the process died
+    await bus.start();
+
+    expect(bus.getStore().getAttempts(eventId).map((a) => [a.attempt, a.outcome])).toEqual([
+      [1, 'interrupted'],
+      [2, 'success'],
+    ]);
+
+    bus.destroy();
+  });
+
+  it('keeps a legacy plain-string last_error as the first history entry', async () => {
+    const store = new SQLiteStore(dbPath);
+    const eventId = crypto.randomUUID();
+    const now = new Date().toISOString();
+    store.insertEvent({
+      id: eventId, type: 'test', payload: {}, status: 'processing', retryCount: 1,
+      createdAt: now, updatedAt: now, lastError: 'connection reset',
+    });
+    store.close();
+
+    const bus = new EventBus(dbPath, { delayFn: async () => {} });
+    bus.subscribe('test', async () => {});
+    await bus.start();
+
+    expect(JSON.parse(bus.getStore().getEvent(eventId)!.last_error!))
+      .toEqual(['connection reset', INTERRUPTED_ATTEMPT_ERROR]);
+
+    bus.destroy();
+  });
+
+  it('dead-letters instead of re-running when lost attempts used up the retry budget', async () => {
+    const store = new SQLiteStore(dbPath);
+    const eventId = crypto.randomUUID();
+    const now = new Date().toISOString();
+    store.insertEvent({
+      id: eventId, type: 'test', payload: {}, status: 'processing', retryCount: 0,
+      createdAt: now, updatedAt: now,
+    });
+    store.close();
+
+    let calls = 0;
+    const bus = new EventBus(dbPath, { delayFn: async () => {} });
+    const subId = bus.subscribe('test', async () => { calls++; }, { retry: { maxRetries: 2 } });
+    // Two earlier runs already died inside this handler
+    bus.getStore().ensureDeliveries(eventId, [subId]);
+    bus.getStore().updateDeliveryRetry(eventId, subId, 2, JSON.stringify([INTERRUPTED_ATTEMPT_ERROR, INTERRUPTED_ATTEMPT_ERROR]));
+
+    const summary = await bus.start();
+
+    expect(calls).toBe(0);
+    expect(summary).toEqual({ processing: 1, pending: 0, delivered: 0, deadLettered: 1, deferred: 0 });
+    const delivery = bus.getStore().getDelivery(eventId, subId)!;
+    expect(delivery.status).toBe('dlq');
+    expect(delivery.retry_count).toBe(3);
+    const row = bus.getStore().getEvent(eventId)!;
+    expect(row.status).toBe('dlq');
+    expect(row.dlq_at).not.toBeNull();
+
+    bus.destroy();
+  });
+
+  it('delivers events parked behind a circuit that was open in the earlier run', async () => {
+    const store = new SQLiteStore(dbPath);
+    const eventId = crypto.randomUUID();
+    const now = new Date().toISOString();
+    store.insertEvent({
+      id: eventId, type: 'test', payload: {}, status: 'parked', retryCount: 0, createdAt: now, updatedAt: now,
+    });
+    store.close();
+
+    const received: string[] = [];
+    const bus = new EventBus(dbPath, { delayFn: async () => {} });
+    const subId = bus.subscribe('test', async (event) => { received.push(event.id); });
+    bus.getStore().parkDeliveries(eventId, [subId]);
+    const summary = await bus.start();
+
+    expect(received).toEqual([eventId]);
+    expect(summary).toEqual({ processing: 0, pending: 1, delivered: 1, deadLettered: 0, deferred: 0 });
+    expect(bus.getStore().getDelivery(eventId, subId)!.status).toBe('done');
+
+    bus.destroy();
+  });
+
+  it('in background mode, releases stuck events and leaves pending ones to the worker', async () => {
+    const store = new SQLiteStore(dbPath);
+    const now = new Date().toISOString();
+    const stuckId = crypto.randomUUID();
+    const pendingId = crypto.randomUUID();
+    store.insertEvent({
+      id: stuckId, type: 'test', payload: {}, status: 'processing', retryCount: 0, createdAt: now, updatedAt: now,
+    });
+    store.insertEvent({
+      id: pendingId, type: 'test', payload: {}, status: 'pending', retryCount: 0, createdAt: now, updatedAt: now,
+    });
+    store.close();
+
+    const received: string[] = [];
+    const bus = new EventBus(dbPath, { deliveryMode: 'background', pollIntervalMs: 10, delayFn: async () => {} });
+    bus.subscribe('test', async (event) => { received.push(event.id); });
+    const summary = await bus.start();
+
+    expect(summary).toEqual({ processing: 1, pending: 0, delivered: 0, deadLettered: 0, deferred: 1 });
+    await waitFor(() => [stuckId, pendingId].every((id) => bus.getStore().getEvent(id)!.status === 'done'));
+    expect(received.sort()).toEqual([stuckId, pendingId].sort());
+
+    await bus.shutdown();
+  });
 });
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EventBus } from './index.js';
+import type { Event } from '../types/index.js';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+function createTmpDbPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'schedule-test-'));
+  return path.join(dir, 'test.db');
+}
+
+function cleanupDb(dbPath: string): void {
+  try { fs.rmSync(path.dirname(dbPath), { recursive: true, force: true }); } catch { /* */ }
+}
+
+async function waitFor(cond: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!cond()) {
+    if (Date.now() - start > timeoutMs) throw new Error('waitFor timed out');
+    await new Promise((r) => setTimeout(r, 5));
+  }
+}
+
+describe('EventBus — recurring schedules', () => {
+  let bus: EventBus;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dbPath = createTmpDbPath();
+    bus = new EventBus(dbPath, { delayFn: async () => {}, pollIntervalMs: 20 });
+  });
+
+  afterEach(() => {
+    bus?.destroy();
+    cleanupDb(dbPath);
+  });
+
+  it('publishes the scheduled event on every tick once started', async () => {
+    const received: Event[] = [];
+    bus.subscribe('cache.refresh', async (event) => { received.push(event); });
+    bus.schedule({ name: 'refresh', eventType: 'cache.refresh', intervalMs: 40, payload: { scope: 'all' } });
+    await bus.start();
+
+    await waitFor(() => received.length >= 2);
+    expect(received[0].payload).toEqual({ scope: 'all' });
+    expect(received[0].metadata?.schedule).toBe('refresh');
+    expect(received[0].metadata?.scheduledFor).toBeDefined();
+  });
+
+  it('lists, pauses and removes schedules', async () => {
+    const id = bus.schedule({ name: 'nightly', eventType: 'report.build', cron: '0 3 * * *' });
+    expect(bus.listSchedules().map((s) => s.name)).toEqual(['nightly']);
+
+    bus.pauseSchedule(id);
+    expect(bus.listSchedules()[0].paused).toBe(true);
+    bus.resumeSchedule(id);
+    expect(bus.listSchedules()[0].paused).toBe(false);
+
+    bus.removeSchedule(id);
+    expect(bus.listSchedules()).toEqual([]);
+  });
+
+  it('stops firing after shutdown', async () => {
+    let count = 0;
+    bus.subscribe('t', async () => { count++; });
+    bus.schedule({ name: 'fast', eventType: 't', intervalMs: 20 });
+    await bus.start();
+    await waitFor(() => count >= 1);
+
+    await bus.shutdown();
+    const after = count;
+    await new Promise((r) => setTimeout(r, 60));
+    expect(count).toBe(after);
+  });
+});
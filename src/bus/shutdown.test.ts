@@ -89,6 +89,24 @@ describe('EventBus.shutdown() (CHK-012)', () => {
     await publishPromise.catch(() => {});
   });
 
+  it('aborts the signal of handlers still running when the drain times out', async () => {
+    const fastBus = new EventBus(dbPath, { shutdownTimeoutMs: 30, logFn: () => {} });
+    let signal: AbortSignal | undefined;
+    fastBus.subscribe('hang', (_event, ctx) => new Promise((_, reject) => {
+      signal = ctx.signal;
+      ctx.signal.addEventListener('abort', () => reject(ctx.signal.reason));
+    }), { retry: { maxRetries: 0 } });
+
+    const publishPromise = fastBus.publish('hang', {});
+    await new Promise((r) => setTimeout(r, 5));
+    expect(signal!.aborted).toBe(false);
+
+    await fastBus.shutdown();
+    expect(signal!.aborted).toBe(true);
+    expect((signal!.reason as Error).name).toBe('EventBusShutdownError');
+    await publishPromise.catch(() => {});
+  });
+
   it('is idempotent (double shutdown does not throw)', async () => {
     await bus.shutdown();
     await expect(bus.shutdown()).resolves.toBeUndefined();
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EventBus } from './index.js';
+import type { BusTransaction } from './index.js';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+function createTmpDbPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'transaction-test-'));
+  return path.join(dir, 'test.db');
+}
+
+function cleanupDb(dbPath: string): void {
+  try { fs.rmSync(path.dirname(dbPath), { recursive: true, force: true }); } catch { /* */ }
+}
+
+describe('EventBus.transaction() — transactional outbox', () => {
+  let bus: EventBus;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dbPath = createTmpDbPath();
+    bus = new EventBus(dbPath, { delayFn: async () => {} });
+    bus.getStore().getDatabase().exec('CREATE TABLE orders (id INTEGER PRIMARY KEY, total INTEGER NOT NULL)');
+  });
+
+  afterEach(() => {
+    bus?.destroy();
+    cleanupDb(dbPath);
+  });
+
+  function countOrders(): number {
+    return (bus.getStore().getDatabase().prepare('SELECT COUNT(*) AS n FROM orders').get() as { n: number }).n;
+  }
+
+  it('commits business rows and events together, then dispatches', async () => {
+    const received: unknown[] = [];
+    bus.subscribe('order.created', async (event) => { received.push(event.payload); });
+
+    const eventId = await bus.transaction((tx) => {
+      tx.db.prepare('INSERT INTO orders (id, total) VALUES (?, ?)').run(1, 99);
+      return tx.publish('order.created', { orderId: 1 });
+    });
+
+    expect(countOrders()).toBe(1);
+    expect(bus.getStore().getEvent(eventId)!.status).toBe('done');
+    expect(received).toEqual([{ orderId: 1 }]);
+  });
+
+  it('does not dispatch until the transaction has committed', async () => {
+    let ordersSeenByHandler = -1;
+    bus.subscribe('order.created', async () => { ordersSeenByHandler = countOrders(); });
+
+    await bus.transaction((tx) => {
+      tx.publish('order.created', {});
+      tx.db.prepare('INSERT INTO orders (id, total) VALUES (?, ?)').run(1, 10);
+    });
+
+    expect(ordersSeenByHandler).toBe(1);
+  });
+
+  it('rolls back both business rows and events when the callback throws', async () => {
+    const received: string[] = [];
+    bus.subscribe('order.created', async (event) => { received.push(event.id); });
+
+    let eventId: string | undefined;
+    await expect(bus.transaction((tx) => {
+      tx.db.prepare('INSERT INTO orders (id, total) VALUES (?, ?)').run(1, 99);
+      eventId = tx.publish('order.created', { orderId: 1 });
+      throw new Error('payment declined');
+    })).rejects.toThrow('payment declined');
+
+    expect(countOrders()).toBe(0);
+    expect(bus.getStore().getEvent(eventId!)).toBeUndefined();
+    expect(received).toEqual([]);
+  });
+
+  it('dispatches multiple events in publish order after commit', async () => {
+    const received: string[] = [];
+    bus.subscribe('step.*', async (event) => { received.push(event.type); });
+
+    await bus.transaction((tx) => {
+      tx.publish('step.one', {});
+      tx.publish('step.two', {});
+    });
+
+    expect(received).toEqual(['step.one', 'step.two']);
+  });
+
+  it('rejects an async callback and rolls back', async () => {
+    await expect(bus.transaction(async (tx) => {
+      tx.publish('order.created', {});
+    })).rejects.toThrow();
+    expect(bus.getStore().getEventsByStatus('pending')).toHaveLength(0);
+  });
+
+  it('refuses publishes through the handle after the transaction completed', async () => {
+    let leaked: BusTransaction | undefined;
+    await bus.transaction((tx) => { leaked = tx; });
+    expect(() => leaked!.publish('late', {})).toThrow();
+  });
+
+  it('throws EventBusShutdownError after shutdown', async () => {
+    await bus.shutdown();
+    await expect(bus.transaction(() => {})).rejects.toThrow('EventBusShutdownError');
+  });
+});
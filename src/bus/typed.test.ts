@@ -0,0 +1,102 @@
+import { describe, it, expect, expectTypeOf, beforeEach, afterEach } from 'vitest';
+import { EventBus } from './index.js';
+import type { Event } from '../types/index.js';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+function createTmpDbPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'typed-test-'));
+  return path.join(dir, 'test.db');
+}
+
+function cleanupDb(dbPath: string): void {
+  try { fs.rmSync(path.dirname(dbPath), { recursive: true, force: true }); } catch { /* */ }
+}
+
+type AppEvents = {
+  'user.created': { id: string; email: string };
+  'user.deleted': { id: string };
+  'order.placed': { orderId: number };
+};
+
+describe('EventBus — typed event map', () => {
+  let dbPath: string;
+  let bus: EventBus<AppEvents> | undefined;
+
+  beforeEach(() => {
+    dbPath = createTmpDbPath();
+  });
+
+  afterEach(() => {
+    bus?.destroy();
+    bus = undefined;
+    cleanupDb(dbPath);
+  });
+
+  it('narrows handler events to the types their pattern matches', async () => {
+    bus = new EventBus<AppEvents>(dbPath);
+    const seen: string[] = [];
+
+    bus.subscribe('user.*', async (event) => {
+      expectTypeOf(event.type).toEqualTypeOf<'user.created' | 'user.deleted'>();
+      expectTypeOf(event.payload).toEqualTypeOf<{ id: string; email: string } | { id: string }>();
+      if (event.type === 'user.created') {
+        expectTypeOf(event.payload).toEqualTypeOf<{ id: string; email: string }>();
+        seen.push(event.payload.email);
+      } else {
+        seen.push(event.payload.id);
+      }
+    });
+    bus.subscribe('order.placed', async (event) => {
+      expectTypeOf(event).toEqualTypeOf<Event<'order.placed', { orderId: number }>>();
+      seen.push(String(event.payload.orderId));
+    });
+    bus.subscribe({ name: 'audit', pattern: '*.deleted' }, async (event) => {
+      expectTypeOf(event.type).toEqualTypeOf<'user.deleted'>();
+    });
+    bus.subscribe(async (event) => {
+      expectTypeOf(event.type).toEqualTypeOf<keyof AppEvents>();
+    });
+
+    await bus.publish('user.created', { id: 'u1', email: 'a@example.com' });
+    await bus.publish('user.deleted', { id: 'u1' });
+    await bus.publishMany([{ type: 'order.placed', payload: { orderId: 7 } }]);
+    await bus.transaction((tx) => { tx.publish('user.deleted', { id: 'u2' }); });
+
+    expect(seen).toEqual(['a@example.com', 'u1', '7', 'u2']);
+  });
+
+  it('rejects unknown event types and mismatched payloads at compile time', () => {
+    bus = new EventBus<AppEvents>(dbPath);
+    // Only type-checked, never run
+    const typeErrors = (typed: EventBus<AppEvents>) => {
+      // @ts-expect-error payload is missing `email`
+      void typed.publish('user.created', { id: 'u1' });
+      // @ts-expect-error unknown event type
+      void typed.publish('user.renamed', { id: 'u1' });
+      // @ts-expect-error payload of another event type
+      void typed.publishMany([{ type: 'order.placed', payload: { id: 'u1' } }]);
+      typed.subscribe('order.*', async (event) => {
+        // @ts-expect-error order events have no `id`
+        void event.payload.id;
+      });
+    };
+    expect(typeErrors).toBeTypeOf('function');
+  });
+
+  it('stays untyped by default', async () => {
+    const untyped = new EventBus(dbPath);
+    try {
+      let received: unknown;
+      untyped.subscribe('anything.*', async (event) => {
+        expectTypeOf(event).toEqualTypeOf<Event>();
+        received = event.payload;
+      });
+      await untyped.publish('anything.goes', 42);
+      expect(received).toBe(42);
+    } finally {
+      untyped.destroy();
+    }
+  });
+});
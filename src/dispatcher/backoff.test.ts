@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Dispatcher } from './index.js';
+import { computeBackoff, type BackoffInput } from './backoff.js';
+import { SQLiteStore } from '../store/index.js';
+import type { BackoffFn, BackoffStrategy, Event, RetryPolicy, Subscription } from '../types/index.js';
+import { DEFAULT_RETRY_POLICY } from '../types/index.js';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+function createTmpDbPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'backoff-test-'));
+  return path.join(dir, 'test.db');
+}
+
+function cleanupDb(dbPath: string): void {
+  try { fs.rmSync(path.dirname(dbPath), { recursive: true, force: true }); } catch { /* */ }
+}
+
+function makeEvent(store: SQLiteStore, type = 'test.event'): Event {
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+  store.insertEvent({ id, type, payload: {}, status: 'pending', retryCount: 0, createdAt: now, updatedAt: now });
+  return { id, type, payload: {}, createdAt: new Date(now), status: 'pending', retryCount: 0 };
+}
+
+function failingSub(retry: Partial<RetryPolicy>): Subscription {
+  return {
+    id: crypto.randomUUID(),
+    eventType: 'test.*',
+    handler: async () => { throw new Error('fail'); },
+    createdAt: new Date(),
+    retry,
+  };
+}
+
+const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 100, maxDelayMs: 1000, backoffMultiplier: 2 };
+const event: Event = { id: 'e1', type: 'test.event', payload: {}, createdAt: new Date(), status: 'processing', retryCount: 0 };
+const noCustom = new Map<string, BackoffFn>();
+
+/** Delays before attempts 2..(retries + 1) */
+function schedule(strategy: BackoffStrategy, retries = 6, input: Partial<BackoffInput> = {}): number[] {
+  return Array.from({ length: retries }, (_, i) =>
+    computeBackoff(strategy, policy, { attempt: i + 2, error: new Error('x'), event, ...input }, noCustom));
+}
+
+describe('backoff strategies', () => {
+  it('fixed, linear and fibonacci follow their schedules up to maxDelayMs', () => {
+    expect(schedule('fixed')).toEqual([100, 100, 100, 100, 100, 100]);
+    expect(schedule('linear')).toEqual([100, 200, 300, 400, 500, 600]);
+    expect(schedule('fibonacci', 9)).toEqual([100, 100, 200, 300, 500, 800, 1000, 1000, 1000]);
+  });
+
+  it('exponential keeps the ±10% jitter around base * multiplier^(retry - 1)', () => {
+    schedule('exponential').forEach((delay, i) => {
+      const raw = Math.min(100 * 2 ** i, 1000);
+      expect(delay).toBeGreaterThanOrEqual(Math.floor(raw * 0.9));
+      expect(delay).toBeLessThanOrEqual(Math.ceil(raw * 1.1));
+    });
+  });
+
+  it('full and decorrelated jitter stay inside their ranges', () => {
+    for (let run = 0; run < 20; run++) {
+      schedule('exponential-full-jitter').forEach((delay, i) => {
+        expect(delay).toBeGreaterThanOrEqual(0);
+        expect(delay).toBeLessThanOrEqual(Math.min(100 * 2 ** i, 1000));
+      });
+      const delay = computeBackoff('decorrelated-jitter', policy,
+        { attempt: 3, error: null, event, previousDelayMs: 200 }, noCustom);
+      expect(delay).toBeGreaterThanOrEqual(100);
+      expect(delay).toBeLessThanOrEqual(600);
+    }
+  });
+
+  it('an explicit delay list repeats its last entry', () => {
+    expect(schedule({ delays: [5, 50, 500] }, 5)).toEqual([5, 50, 500, 500, 500]);
+  });
+
+  it('callbacks receive the attempt, error and event; registered ones are looked up by name', () => {
+    const calls: unknown[][] = [];
+    const fn: BackoffFn = (attempt, error, ev) => {
+      calls.push([attempt, (error as Error).message, ev.id]);
+      return attempt * 7;
+    };
+    expect(schedule(fn, 2)).toEqual([14, 21]);
+    expect(calls).toEqual([[2, 'x', 'e1'], [3, 'x', 'e1']]);
+    expect(computeBackoff('sevens', policy, { attempt: 4, error: new Error('y'), event }, new Map([['sevens', fn]]))).toBe(28);
+  });
+});
+
+describe('Dispatcher — backoff strategies', () => {
+  let store: SQLiteStore;
+  let dbPath: string;
+  let delays: number[];
+  let dispatcher: Dispatcher;
+
+  beforeEach(() => {
+    dbPath = createTmpDbPath();
+    store = new SQLiteStore(dbPath);
+    delays = [];
+    dispatcher = new Dispatcher(store, {
+      delayFn: async (ms) => { delays.push(ms); },
+      logFn: () => {},
+      backoffStrategies: { quadratic: (attempt) => (attempt - 1) ** 2 },
+    });
+  });
+
+  afterEach(() => {
+    store?.close();
+    cleanupDb(dbPath);
+  });
+
+  it('uses the failing subscription\'s strategy, by name or inline', async () => {
+    const byName = failingSub({ maxRetries: 3, backoff: 'quadratic' });
+    await dispatcher.dispatch(makeEvent(store), new Map([[byName.id, byName]]));
+    expect(delays).toEqual([1, 4, 9]);
+
+    delays = [];
+    const listed = failingSub({ maxRetries: 3, backoff: { delays: [10, 20] } });
+    await dispatcher.dispatch(makeEvent(store), new Map([[listed.id, listed]]));
+    expect(delays).toEqual([10, 20, 20]);
+  });
+
+  it('an error rule can switch strategy for matching errors', async () => {
+    const sub = failingSub({ maxRetries: 2, backoff: 'fixed', baseDelayMs: 5, errorRules: [{ match: Error, backoff: 'linear' }] });
+    await dispatcher.dispatch(makeEvent(store), new Map([[sub.id, sub]]));
+    expect(delays).toEqual([5, 10]);
+  });
+
+  it('rejects unknown strategy names and replacing built-ins', () => {
+    expect(() => dispatcher.assertRetryPolicy({ backoff: 'nope' })).toThrow(TypeError);
+    expect(() => dispatcher.assertRetryPolicy({ backoff: { delays: [] } })).toThrow(TypeError);
+    expect(() => dispatcher.assertRetryPolicy({ backoff: 'quadratic' })).not.toThrow();
+    expect(() => new Dispatcher(store, { backoffStrategies: { fixed: () => 1 } })).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,87 @@
+import type { BackoffFn, BackoffName, BackoffStrategy, Event, RetryPolicy } from '../types/index.js';
+
+export const BACKOFF_NAMES: readonly BackoffName[] = [
+  'exponential',
+  'fixed',
+  'linear',
+  'exponential-full-jitter',
+  'decorrelated-jitter',
+  'fibonacci',
+];
+
+/** What a strategy is asked about: the attempt the delay precedes and the failure that caused it. */
+export interface BackoffInput {
+  attempt: number;          // 1-indexed; the first retry is attempt 2
+  error: unknown;
+  event: Event;
+  previousDelayMs?: number; // last delay this delivery waited in this process (decorrelated jitter)
+}
+
+/**
+ * Delay in ms before `input.attempt` under `strategy`. `custom` holds the callbacks registered by
+ * name; `policy` supplies baseDelayMs, maxDelayMs and backoffMultiplier to the built-in schedules.
+ * Custom callbacks and explicit delay lists are not capped by maxDelayMs.
+ */
+export function computeBackoff(
+  strategy: BackoffStrategy,
+  policy: RetryPolicy,
+  input: BackoffInput,
+  custom: ReadonlyMap<string, BackoffFn>,
+): number {
+  if (typeof strategy === 'function') return clampDelay(strategy(input.attempt, input.error, input.event));
+  if (typeof strategy === 'object') {
+    const { delays } = strategy;
+    return clampDelay(delays[Math.min(input.attempt - 2, delays.length - 1)]);
+  }
+
+  const retry = Math.max(1, input.attempt - 1);
+  const { baseDelayMs: base, maxDelayMs: max, backoffMultiplier: multiplier } = policy;
+  switch (strategy) {
+    case 'exponential': {
+      // ±10% jitter (CHK-017)
+      const raw = Math.min(base * Math.pow(multiplier, retry - 1), max);
+      return clampDelay(raw + raw * 0.1 * (2 * Math.random() - 1));
+    }
+    case 'fixed':
+      return clampDelay(Math.min(base, max));
+    case 'linear':
+      return clampDelay(Math.min(base * retry, max));
+    case 'exponential-full-jitter':
+      return clampDelay(Math.random() * Math.min(base * Math.pow(multiplier, retry - 1), max));
+    case 'decorrelated-jitter': {
+      const ceiling = Math.max(base, (input.previousDelayMs ?? base) * 3);
+      return clampDelay(Math.min(base + Math.random() * (ceiling - base), max));
+    }
+    case 'fibonacci':
+      return clampDelay(Math.min(base * fibonacci(retry), max));
+  }
+
+  const registered = custom.get(strategy);
+  if (!registered) throw new TypeError(`Unknown backoff strategy: ${strategy}`);
+  return clampDelay(registered(input.attempt, input.error, input.event));
+}
+
+/** Throw a TypeError for a strategy computeBackoff could not use, so it fails at subscribe time. */
+export function assertBackoffStrategy(strategy: BackoffStrategy, custom: ReadonlyMap<string, BackoffFn>): void {
+  if (typeof strategy === 'function') return;
+  if (typeof strategy === 'object') {
+    const { delays } = strategy;
+    if (!Array.isArray(delays) || delays.length === 0 || !delays.every((d) => Number.isFinite(d) && d >= 0)) {
+      throw new TypeError('backoff delays must be a non-empty list of non-negative numbers');
+    }
+    return;
+  }
+  if (!(BACKOFF_NAMES as readonly string[]).includes(strategy) && !custom.has(strategy)) {
+    throw new TypeError(`Unknown backoff strategy: ${strategy}`);
+  }
+}
+
+function fibonacci(n: number): number {
+  let [a, b] = [1, 1];
+  for (let i = 2; i < n; i++) [a, b] = [b, a + b];
+  return b;
+}
+
+function clampDelay(ms: number): number {
+  return Number.isFinite(ms) ? Math.max(0, Math.round(ms)) : 0;
+}
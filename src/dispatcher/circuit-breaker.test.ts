@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { Dispatcher } from './index.js';
+import { Dispatcher, type CircuitTransition } from './index.js';
+import { EventBus } from '../bus/index.js';
 import { SQLiteStore } from '../store/index.js';
 import type { Event, Subscription } from '../types/index.js';
 import fs from 'node:fs';
@@ -74,8 +75,9 @@ describe('Circuit Breaker (CHK-018)', () => {
     await dispatcher.dispatch(event5, subs);
     // Handler was NOT called again (circuit is open)
     expect(calls).toBe(4);
-    // Event goes to done (no matching active subs)
-    expect(store.getEvent(event5.id)!.status).toBe('done');
+    // Event is parked for the circuit-broken subscription instead of completing
+    expect(store.getEvent(event5.id)!.status).toBe('parked');
+    expect(store.getDelivery(event5.id, s.id)!.status).toBe('parked');
   });
 
   it('does not trip circuit with <4 samples', async () => {
@@ -294,8 +296,9 @@ describe('Circuit Breaker Half-Open Probe (CHK-016)', () => {
 
       // Only probe (event1) should have called the handler; event2 should be skipped
       expect(calls).toBe(5); // probe handler ran once, not twice
-      // event2 was skipped (no active subs while probe in flight)
-      expect(store.getEvent(event2.id)!.status).toBe('done');
+      // event2 was parked while the probe was in flight, then requeued when the probe closed the circuit
+      expect(store.getEvent(event2.id)!.status).toBe('pending');
+      expect(store.getDelivery(event2.id, s.id)!.status).toBe('pending');
     } finally {
       vi.useRealTimers();
     }
@@ -334,7 +337,7 @@ describe('Circuit Breaker Half-Open Probe (CHK-016)', () => {
     }
   });
 
-  it('clears probeInFlight when earlier sub fails before half-open sub executes', async () => {
+  it('clears probeInFlight when the half-open sub has no pending delivery for the event', async () => {
     vi.useFakeTimers();
     try {
       const subs = new Map<string, Subscription>();
@@ -370,12 +373,15 @@ describe('Circuit Breaker Half-Open Probe (CHK-016)', () => {
       // sProbe is now circuit-open. Advance past 30s → half-open.
       vi.advanceTimersByTime(30_001);
 
-      // Now dispatch with both subs. sAlwaysFail runs first and fails.
-      // sProbe is in half-open with probeInFlight=true but never executes.
+      // Dispatch an event whose sProbe delivery already succeeded (e.g. a DLQ retry of
+      // sAlwaysFail's delivery). sProbe is half-open with probeInFlight=true but never executes.
       // The fix must clear probeInFlight for sProbe.
-      await dispatcher.dispatch(makeEvent(store), subs);
+      const event = makeEvent(store);
+      store.ensureDeliveries(event.id, [sAlwaysFail.id, sProbe.id]);
+      store.markDeliveryDone(event.id, sProbe.id);
+      await dispatcher.dispatch(event, subs);
       expect(failCalls).toBe(1); // sAlwaysFail ran
-      expect(probeCalls).toBe(4); // sProbe was NOT executed (earlier sub failed first)
+      expect(probeCalls).toBe(4); // sProbe was NOT executed (already delivered)
 
       // Key assertion: sProbe's probeInFlight must be cleared.
       // Next dispatch should allow sProbe to be probed again (not permanently stuck).
@@ -386,4 +392,319 @@ describe('Circuit Breaker Half-Open Probe (CHK-016)', () => {
       vi.useRealTimers();
     }
   });
+
+  it('runs a half-open sub even when an earlier sub is dead-lettered first', async () => {
+    vi.useFakeTimers();
+    try {
+      const subs = new Map<string, Subscription>();
+      let probeCalls = 0;
+
+      const sAlwaysFail = makeSub('test.*', async () => {
+        throw new Error('always fail');
+      }, { retry: { maxRetries: 0, baseDelayMs: 1 } });
+      const sProbe = makeSub('test.*', async () => {
+        probeCalls++;
+        throw new Error('fail');
+      }, { retry: { maxRetries: 0, baseDelayMs: 1 } });
+      subs.set(sAlwaysFail.id, sAlwaysFail);
+      subs.set(sProbe.id, sProbe);
+
+      const soloSubs = new Map<string, Subscription>();
+      soloSubs.set(sProbe.id, sProbe);
+      for (let i = 0; i < 4; i++) {
+        await dispatcher.dispatch(makeEvent(store), soloSubs);
+      }
+      vi.advanceTimersByTime(30_001);
+
+      // Deliveries are independent: sAlwaysFail's failure no longer stops sProbe's probe
+      await dispatcher.dispatch(makeEvent(store), subs);
+      expect(probeCalls).toBe(5);
+
+      // Probe failed → circuit re-opened, blocked until the pause elapses again
+      await dispatcher.dispatch(makeEvent(store), soloSubs);
+      expect(probeCalls).toBe(5);
+      vi.advanceTimersByTime(30_001);
+      await dispatcher.dispatch(makeEvent(store), soloSubs);
+      expect(probeCalls).toBe(6);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('Circuit Breaker Parking', () => {
+  let store: SQLiteStore;
+  let dbPath: string;
+  let dispatcher: Dispatcher;
+  let releases: number;
+
+  beforeEach(() => {
+    dbPath = createTmpDbPath();
+    store = new SQLiteStore(dbPath);
+    releases = 0;
+    dispatcher = new Dispatcher(store, { delayFn: async () => {}, logFn: () => {}, onParkedReleased: () => { releases++; } });
+  });
+
+  afterEach(() => {
+    store?.close();
+    cleanupDb(dbPath);
+  });
+
+  /** Four failing dispatches to `sub` alone trip its breaker. */
+  async function trip(sub: Subscription): Promise<void> {
+    for (let i = 0; i < 4; i++) await dispatcher.dispatch(makeEvent(store), new Map([[sub.id, sub]]));
+  }
+
+  it('parks the open sub\'s delivery while other subscriptions still run', async () => {
+    let healthy = 0;
+    const flaky = makeSub('test.*', async () => { throw new Error('down'); }, { retry: { maxRetries: 0 } });
+    const ok = makeSub('test.*', async () => { healthy++; });
+    const subs = new Map([[ok.id, ok], [flaky.id, flaky]]);
+    await trip(flaky);
+
+    const event = makeEvent(store);
+    await dispatcher.dispatch(event, subs);
+
+    expect(healthy).toBe(1);
+    expect(store.getDelivery(event.id, ok.id)!.status).toBe('done');
+    expect(store.getDelivery(event.id, flaky.id)!.status).toBe('parked');
+    expect(store.getEvent(event.id)!.status).toBe('parked');
+  });
+
+  it('a delivery parked while another subscription dead-letters the event still runs once released', async () => {
+    let calls = 0;
+    const held = makeSub('test.*', async () => { calls++; });
+    const broken = makeSub('test.*', async () => { throw new Error('broken'); }, { retry: { maxRetries: 0 } });
+    const subs = new Map([[held.id, held], [broken.id, broken]]);
+    const breakers = dispatcher.getCircuitBreakers();
+    breakers.forceOpen(held.id);
+
+    const event = makeEvent(store);
+    await dispatcher.dispatch(event, subs);
+    expect(store.getEvent(event.id)!.status).toBe('dlq');
+    expect(store.getDelivery(event.id, held.id)!.status).toBe('parked');
+    const dlqAt = store.getEvent(event.id)!.dlq_at;
+
+    breakers.reset(held.id);
+    expect(releases).toBe(1);
+    expect(store.getEvent(event.id)!.status).toBe('pending');
+    await dispatcher.dispatch(event, subs);
+
+    expect(calls).toBe(1);
+    expect(store.getDelivery(event.id, held.id)!.status).toBe('done');
+    expect(store.getDelivery(event.id, broken.id)!.status).toBe('dlq');
+    expect(store.getEvent(event.id)).toMatchObject({ status: 'dlq', dlq_at: dlqAt });
+  });
+
+  it('a successful probe requeues every parked event, oldest first', async () => {
+    vi.useFakeTimers();
+    try {
+      const seen: string[] = [];
+      let down = true;
+      const s = makeSub('test.*', async (e) => {
+        if (down) throw new Error('down');
+        seen.push(e.id);
+      }, { retry: { maxRetries: 0 } });
+      const subs = new Map([[s.id, s]]);
+      await trip(s);
+
+      const parked = [makeEvent(store), makeEvent(store), makeEvent(store)];
+      for (const event of parked) await dispatcher.dispatch(event, subs);
+      expect(parked.map((e) => store.getEvent(e.id)!.status)).toEqual(['parked', 'parked', 'parked']);
+
+      down = false;
+      vi.advanceTimersByTime(30_001);
+      // The probe timer handed the oldest parked event back to the queue
+      expect(releases).toBe(1);
+      expect(parked.map((e) => store.getEvent(e.id)!.status)).toEqual(['pending', 'parked', 'parked']);
+
+      // Its dispatch is the half-open probe; success closes the circuit and releases the rest
+      await dispatcher.dispatch(parked[0], subs);
+      expect(releases).toBe(2);
+      expect(store.getEvent(parked[0].id)!.status).toBe('done');
+      const requeued = store.claimPendingEvents(-1, 'test', new Date(Date.now() + 30_000).toISOString());
+      expect(requeued.map((r) => r.id)).toEqual([parked[1].id, parked[2].id]);
+
+      for (const row of requeued) await dispatcher.dispatch(parked.find((e) => e.id === row.id)!, subs);
+      expect(seen).toEqual(parked.map((e) => e.id));
+      expect(parked.map((e) => store.getEvent(e.id)!.status)).toEqual(['done', 'done', 'done']);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('a failed probe parks again and schedules the next probe', async () => {
+    vi.useFakeTimers();
+    try {
+      const s = makeSub('test.*', async () => { throw new Error('still down'); }, { retry: { maxRetries: 0 } });
+      const subs = new Map([[s.id, s]]);
+      await trip(s);
+
+      const [first, second] = [makeEvent(store), makeEvent(store)];
+      await dispatcher.dispatch(first, subs);
+      await dispatcher.dispatch(second, subs);
+
+      vi.advanceTimersByTime(30_001);
+      await dispatcher.dispatch(first, subs); // probe fails → dead-lettered, circuit reopens
+      expect(store.getEvent(first.id)!.status).toBe('dlq');
+      expect(store.getEvent(second.id)!.status).toBe('parked');
+
+      vi.advanceTimersByTime(30_001);
+      expect(store.getEvent(second.id)!.status).toBe('pending');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('Circuit Breaker Configuration and Control', () => {
+  let store: SQLiteStore;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dbPath = createTmpDbPath();
+    store = new SQLiteStore(dbPath);
+  });
+
+  afterEach(() => {
+    store?.close();
+    cleanupDb(dbPath);
+  });
+
+  function failing(opts?: Partial<Subscription>): Subscription {
+    return { ...makeSub('test.*', async () => { throw new Error('fail'); }, { retry: { maxRetries: 0 } }), ...opts };
+  }
+
+  it('takes dispatcher-wide settings, overridden per subscription', async () => {
+    const dispatcher = new Dispatcher(store, {
+      delayFn: async () => {}, logFn: () => {}, circuitBreaker: { minSamples: 2, pauseMs: 5_000 },
+    });
+    const strict = failing({ circuitBreaker: { failureThreshold: 0.9 } });
+    const lenient = failing({ circuitBreaker: { minSamples: 10 } });
+    for (let i = 0; i < 2; i++) {
+      await dispatcher.dispatch(makeEvent(store), new Map([[strict.id, strict], [lenient.id, lenient]]));
+    }
+
+    const breakers = dispatcher.getCircuitBreakers();
+    // 100% failures > 0.9 over 2 samples: open; the other sub needs 10 samples first
+    expect(breakers.get(strict.id)).toMatchObject({ state: 'open', failureRate: 1, samples: 2, forced: false });
+    expect(breakers.get(strict.id).options).toEqual({ windowMs: 60_000, minSamples: 2, failureThreshold: 0.9, pauseMs: 5_000 });
+    const { openedAt, probeAt } = breakers.get(strict.id);
+    expect(probeAt!.getTime() - openedAt!.getTime()).toBe(5_000);
+    expect(breakers.get(lenient.id).state).toBe('closed');
+  });
+
+  it('force-open holds the breaker open; force-close holds it closed; reset returns to automatic', async () => {
+    vi.useFakeTimers();
+    try {
+      const transitions: CircuitTransition[] = [];
+      const dispatcher = new Dispatcher(store, {
+        delayFn: async () => {}, logFn: () => {}, onCircuitTransition: (t) => transitions.push(t),
+      });
+      const breakers = dispatcher.getCircuitBreakers();
+      let calls = 0;
+      const s = makeSub('test.*', async () => { calls++; throw new Error('fail'); }, { retry: { maxRetries: 0 } });
+      const subs = new Map([[s.id, s]]);
+
+      breakers.forceOpen(s.id);
+      const held = makeEvent(store);
+      await dispatcher.dispatch(held, subs);
+      vi.advanceTimersByTime(60_000);
+      expect(calls).toBe(0);
+      expect(store.getEvent(held.id)!.status).toBe('parked'); // no probe while forced
+
+      breakers.forceClose(s.id);
+      expect(store.getEvent(held.id)!.status).toBe('pending');
+      for (let i = 0; i < 5; i++) await dispatcher.dispatch(makeEvent(store), subs);
+      expect(calls).toBe(5);
+      expect(breakers.get(s.id)).toMatchObject({ state: 'closed', forced: true, failureRate: 1 });
+
+      breakers.reset(s.id);
+      expect(breakers.get(s.id)).toMatchObject({ state: 'closed', forced: false, samples: 0 });
+      expect(transitions.map((t) => [t.from, t.to, t.reason])).toEqual([
+        ['closed', 'open', 'forced-open'],
+        ['open', 'closed', 'forced-closed'],
+      ]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('reports automatic transitions; a throwing observer does not affect dispatch', async () => {
+    vi.useFakeTimers();
+    try {
+      const transitions: CircuitTransition[] = [];
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const dispatcher = new Dispatcher(store, {
+        delayFn: async () => {},
+        logFn: () => {},
+        onCircuitTransition: (t) => {
+          transitions.push(t);
+          throw new Error('observer bug');
+        },
+      });
+      let healthy = false;
+      const s = makeSub('test.*', async () => { if (!healthy) throw new Error('fail'); }, { retry: { maxRetries: 0 } });
+      const subs = new Map([[s.id, s]]);
+      for (let i = 0; i < 4; i++) await dispatcher.dispatch(makeEvent(store), subs);
+
+      vi.advanceTimersByTime(30_001);
+      healthy = true;
+      const probe = makeEvent(store);
+      await dispatcher.dispatch(probe, subs);
+
+      expect(store.getEvent(probe.id)!.status).toBe('done');
+      expect(transitions.map((t) => [t.to, t.reason])).toEqual([
+        ['open', 'tripped'],
+        ['half-open', 'pause-elapsed'],
+        ['closed', 'probe-succeeded'],
+      ]);
+      expect(transitions[0]).toMatchObject({ subscriptionId: s.id, from: 'closed', failureRate: 1 });
+      expect(errorSpy).toHaveBeenCalledTimes(3);
+      errorSpy.mockRestore();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('EventBus subscriptions register their options before the first dispatch', () => {
+    const bus = new EventBus(dbPath, { circuitBreaker: { pauseMs: 5_000 } });
+    try {
+      const anon = bus.subscribe('test.*', async () => {}, { circuitBreaker: { pauseMs: 1_000 } });
+      const named = bus.subscribe({ name: 'cb-projector', pattern: 'test.*' }, async () => {}, {
+        circuitBreaker: { minSamples: 10 },
+      });
+      const breakers = bus.getCircuitBreakers();
+
+      expect(breakers.get(anon).options).toMatchObject({ pauseMs: 1_000, minSamples: 4 });
+      expect(breakers.get(named).options).toMatchObject({ pauseMs: 5_000, minSamples: 10 });
+      expect(breakers.list().map((b) => b.subscriptionId).sort()).toEqual([anon, named].sort());
+
+      breakers.forceOpen(anon);
+      expect(breakers.get(anon)).toMatchObject({ state: 'open', forced: true, options: { pauseMs: 1_000 } });
+      breakers.reset(anon);
+      expect(breakers.get(anon)).toMatchObject({ state: 'closed', options: { pauseMs: 1_000 } });
+    } finally {
+      bus.destroy();
+    }
+  });
+
+  it('persisted state keeps an open breaker open across a restart', async () => {
+    const first = new Dispatcher(store, { delayFn: async () => {}, logFn: () => {}, persistCircuitBreakers: true });
+    let calls = 0;
+    const s = makeSub('test.*', async () => { calls++; throw new Error('fail'); }, { retry: { maxRetries: 0 } });
+    const subs = new Map([[s.id, s]]);
+    for (let i = 0; i < 4; i++) await first.dispatch(makeEvent(store), subs);
+    expect(store.getCircuitBreaker(s.id)).toMatchObject({ state: 'open', forced: 0 });
+
+    const restarted = new Dispatcher(store, { delayFn: async () => {}, logFn: () => {}, persistCircuitBreakers: true });
+    const event = makeEvent(store);
+    await restarted.dispatch(event, subs);
+    expect(calls).toBe(4);
+    expect(store.getEvent(event.id)!.status).toBe('parked');
+    expect(restarted.getCircuitBreakers().list().map((b) => [b.subscriptionId, b.state])).toEqual([[s.id, 'open']]);
+
+    restarted.getCircuitBreakers().reset(s.id);
+    expect(store.getCircuitBreaker(s.id)).toBeUndefined();
+  });
 });
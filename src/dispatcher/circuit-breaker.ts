@@ -0,0 +1,278 @@
+import type { SQLiteStore } from '../store/index.js';
+import type { CircuitBreakerOptions, Subscription } from '../types/index.js';
+import { DEFAULT_CIRCUIT_BREAKER } from '../types/index.js';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type CircuitTransitionReason =
+  | 'tripped'           // failure rate over the threshold
+  | 'pause-elapsed'     // open → half-open: the next delivery is the probe
+  | 'probe-succeeded'
+  | 'probe-failed'
+  | 'forced-open'
+  | 'forced-closed'
+  | 'reset';
+
+export interface CircuitTransition {
+  subscriptionId: string;
+  from: CircuitState;
+  to: CircuitState;
+  reason: CircuitTransitionReason;
+  failureRate: number;      // over the window, at the moment of the transition
+  at: Date;
+}
+
+export interface CircuitBreakerSnapshot {
+  subscriptionId: string;
+  state: CircuitState;
+  forced: boolean;          // held in this state by forceOpen()/forceClose() until reset()
+  failureRate: number;      // failures / samples within the window (0 without samples)
+  samples: number;
+  openedAt?: Date;
+  probeAt?: Date;           // open and not forced: when the half-open probe is let through
+  options: CircuitBreakerOptions;
+}
+
+export interface CircuitBreakersOptions {
+  /** Dispatcher-wide settings; a subscription's `circuitBreaker` overrides them field by field */
+  defaults?: Partial<CircuitBreakerOptions>;
+  /** Keep state in the circuit_breakers table so an open breaker stays open across restarts */
+  persist?: boolean;
+  onTransition?: (transition: CircuitTransition) => void;
+  /** Parked deliveries went back to the queue */
+  onParkedReleased: () => void;
+  /** Run a store operation, tolerating a closed database (see Dispatcher.storeOp) */
+  storeOp: <T>(fn: () => T) => T | undefined;
+}
+
+interface BreakerState {
+  outcomes: { timestamp: number; success: boolean }[];
+  state: CircuitState;
+  openedAt: number;
+  probeInFlight: boolean;
+  forced: boolean;
+  options: CircuitBreakerOptions;
+  probeTimer?: NodeJS.Timeout; // releases one parked event as the half-open probe once the pause is over
+}
+
+/**
+ * Per-subscription circuit breakers (CHK-016, CHK-018). A breaker trips open when the failure rate
+ * over `windowMs` exceeds `failureThreshold` with at least `minSamples` outcomes, stays open for
+ * `pauseMs`, then lets a single half-open probe through: success closes it, failure reopens it.
+ * Deliveries for an open breaker are parked by the Dispatcher; closing one requeues them.
+ * State is in memory unless `persist` is set. Persisted state is keyed by subscription ID, so it
+ * carries over for durable (named) subscriptions.
+ */
+export class CircuitBreakers {
+  private breakers = new Map<string, BreakerState>();
+  private defaults: CircuitBreakerOptions;
+
+  constructor(private store: SQLiteStore, private options: CircuitBreakersOptions) {
+    this.defaults = { ...DEFAULT_CIRCUIT_BREAKER, ...options.defaults };
+  }
+
+  /** Current state of one subscription's breaker (closed with no samples if it never ran). */
+  get(subscriptionId: string): CircuitBreakerSnapshot {
+    const cb = this.breaker(subscriptionId);
+    const window = this.window(cb);
+    const open = cb.state === 'open';
+    return {
+      subscriptionId,
+      state: cb.state,
+      forced: cb.forced,
+      failureRate: failureRate(window),
+      samples: window.length,
+      openedAt: open || cb.state === 'half-open' ? new Date(cb.openedAt) : undefined,
+      probeAt: open && !cb.forced ? new Date(cb.openedAt + cb.options.pauseMs) : undefined,
+      options: { ...cb.options },
+    };
+  }
+
+  /** Take a subscription's `circuitBreaker` options now, so get() and the force controls use them before it first runs. */
+  register(sub: Subscription): void {
+    this.breaker(sub.id, sub);
+  }
+
+  /** Every breaker this process has seen, plus persisted ones. */
+  list(): CircuitBreakerSnapshot[] {
+    const ids = new Set(this.breakers.keys());
+    if (this.options.persist) {
+      for (const row of this.options.storeOp(() => this.store.getAllCircuitBreakers()) ?? []) ids.add(row.subscription_id);
+    }
+    return [...ids].map((id) => this.get(id));
+  }
+
+  /** Open the breaker and hold it open — no probes — until forceClose() or reset(). */
+  forceOpen(subscriptionId: string): void {
+    const cb = this.breaker(subscriptionId);
+    cb.forced = true;
+    this.clearProbeTimer(cb);
+    this.moveTo(subscriptionId, cb, 'open', 'forced-open');
+  }
+
+  /** Close the breaker and hold it closed, whatever the failure rate, until reset(). Requeues parked deliveries. */
+  forceClose(subscriptionId: string): void {
+    const cb = this.breaker(subscriptionId);
+    cb.forced = true;
+    cb.outcomes = [];
+    this.moveTo(subscriptionId, cb, 'closed', 'forced-closed');
+    this.releaseParked(subscriptionId, -1);
+  }
+
+  /** Back to automatic: closed, no samples, not forced. Requeues parked deliveries. */
+  reset(subscriptionId: string): void {
+    const cb = this.breaker(subscriptionId);
+    cb.forced = false;
+    cb.outcomes = [];
+    this.moveTo(subscriptionId, cb, 'closed', 'reset');
+    this.releaseParked(subscriptionId, -1);
+  }
+
+  /**
+   * Whether `sub` must be skipped now. Open breakers whose pause is over turn half-open and let this
+   * call through as the probe; a half-open breaker with its probe in flight blocks the rest.
+   */
+  isOpen(sub: Subscription): boolean {
+    const cb = this.breaker(sub.id, sub);
+    if (cb.forced) return cb.state === 'open';
+    if (cb.state === 'closed') return false;
+
+    if (cb.state === 'open') {
+      const elapsed = Date.now() - cb.openedAt;
+      if (elapsed >= cb.options.pauseMs) {
+        this.moveTo(sub.id, cb, 'half-open', 'pause-elapsed');
+        cb.probeInFlight = true;
+        return false; // allow single probe
+      }
+      return true;
+    }
+
+    // half-open: block if probe already in flight
+    if (cb.probeInFlight) return true;
+    cb.probeInFlight = true;
+    return false;
+  }
+
+  /** Record one handler outcome; may trip the breaker or settle a half-open probe. */
+  record(sub: Subscription, success: boolean): void {
+    const cb = this.breaker(sub.id, sub);
+    const now = Date.now();
+    cb.outcomes.push({ timestamp: now, success });
+    cb.outcomes = this.window(cb);
+    if (cb.forced) return;
+
+    if (cb.state === 'half-open') {
+      cb.probeInFlight = false;
+      // Probe result
+      if (success) {
+        cb.outcomes = [];
+        this.moveTo(sub.id, cb, 'closed', 'probe-succeeded');
+        this.releaseParked(sub.id, -1);
+      } else {
+        this.moveTo(sub.id, cb, 'open', 'probe-failed');
+        this.scheduleProbe(sub.id);
+      }
+      return;
+    }
+
+    // Check if circuit should trip
+    if (cb.outcomes.length >= cb.options.minSamples && failureRate(cb.outcomes) > cb.options.failureThreshold) {
+      this.moveTo(sub.id, cb, 'open', 'tripped');
+    }
+  }
+
+  /** A half-open sub picked for a probe that did not run it (nothing pending for it): free the probe slot. */
+  releaseUnusedProbe(subscriptionId: string): void {
+    const cb = this.breakers.get(subscriptionId);
+    if (cb && cb.state === 'half-open' && cb.probeInFlight) cb.probeInFlight = false;
+  }
+
+  /**
+   * While the breaker is open, arrange for one parked event to be handed back to the queue once the
+   * pause is over: its dispatch is the half-open probe, and a successful probe releases the rest.
+   */
+  scheduleProbe(subscriptionId: string): void {
+    const cb = this.breaker(subscriptionId);
+    if (cb.state !== 'open' || cb.forced || cb.probeTimer) return;
+    const wait = Math.max(0, cb.openedAt + cb.options.pauseMs - Date.now());
+    cb.probeTimer = setTimeout(() => {
+      cb.probeTimer = undefined;
+      if (cb.state === 'open' && !cb.forced) this.releaseParked(subscriptionId, 1);
+    }, wait);
+    cb.probeTimer.unref();
+  }
+
+  /** The breaker for a subscription, created (or loaded from SQLite) on first use; `sub` refreshes its options. */
+  private breaker(subscriptionId: string, sub?: Subscription): BreakerState {
+    let cb = this.breakers.get(subscriptionId);
+    if (!cb) {
+      cb = { outcomes: [], state: 'closed', openedAt: 0, probeInFlight: false, forced: false, options: this.defaults };
+      const row = this.options.persist
+        ? this.options.storeOp(() => this.store.getCircuitBreaker(subscriptionId))
+        : undefined;
+      if (row) {
+        // A probe that was in flight when the process stopped never reported back: probe again
+        cb.state = row.state === 'half-open' ? 'open' : row.state as CircuitState;
+        cb.forced = row.forced === 1;
+        cb.openedAt = row.opened_at != null ? Date.parse(row.opened_at) : 0;
+      }
+      this.breakers.set(subscriptionId, cb);
+    }
+    if (sub) cb.options = { ...this.defaults, ...sub.circuitBreaker };
+    return cb;
+  }
+
+  private window(cb: BreakerState): BreakerState['outcomes'] {
+    const cutoff = Date.now() - cb.options.windowMs;
+    return cb.outcomes.filter((o) => o.timestamp > cutoff);
+  }
+
+  private moveTo(subscriptionId: string, cb: BreakerState, to: CircuitState, reason: CircuitTransitionReason): void {
+    const from = cb.state;
+    cb.state = to;
+    if (to === 'open') cb.openedAt = Date.now();
+    if (to !== 'open') this.clearProbeTimer(cb);
+
+    if (this.options.persist) {
+      const openedAt = to === 'closed' ? null : new Date(cb.openedAt).toISOString();
+      if (reason === 'reset') this.options.storeOp(() => this.store.deleteCircuitBreaker(subscriptionId));
+      else this.options.storeOp(() => this.store.saveCircuitBreaker(subscriptionId, to, cb.forced, openedAt));
+    }
+
+    if (from === to || !this.options.onTransition) return;
+    const transition: CircuitTransition = {
+      subscriptionId,
+      from,
+      to,
+      reason,
+      failureRate: failureRate(this.window(cb)),
+      at: new Date(),
+    };
+    try {
+      this.options.onTransition(transition);
+    } catch (err) {
+      // An observer must never break dispatch
+      console.error(JSON.stringify({
+        level: 'error',
+        message: 'circuit transition hook failed',
+        subscription_id: subscriptionId,
+        error: err instanceof Error ? err.message : String(err),
+      }));
+    }
+  }
+
+  private clearProbeTimer(cb: BreakerState): void {
+    if (cb.probeTimer) clearTimeout(cb.probeTimer);
+    cb.probeTimer = undefined;
+  }
+
+  /** Requeue up to `limit` (-1: all) of a subscription's parked deliveries, oldest event first. */
+  private releaseParked(subscriptionId: string, limit: number): void {
+    const released = this.options.storeOp(() => this.store.releaseParkedDeliveries(subscriptionId, limit)) ?? 0;
+    if (released > 0) this.options.onParkedReleased();
+  }
+}
+
+function failureRate(outcomes: { success: boolean }[]): number {
+  return outcomes.length > 0 ? outcomes.filter((o) => !o.success).length / outcomes.length : 0;
+}
@@ -1,7 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { Dispatcher, DEFAULT_HANDLER_TIMEOUT_MS } from './index.js';
+import {
+  Dispatcher, DEFAULT_HANDLER_TIMEOUT_MS, PermanentError, type HandlerLogEntry, type RetryLogEntry,
+} from './index.js';
 import { SQLiteStore } from '../store/index.js';
-import type { Event, Subscription, RetryPolicy } from '../types/index.js';
+import type { Event, EventHandler, HandlerExecution, Subscription, RetryPolicy } from '../types/index.js';
 import { DEFAULT_RETRY_POLICY } from '../types/index.js';
 import { matchGlob } from '../bus/glob.js';
 import fs from 'node:fs';
@@ -43,8 +45,8 @@ function makeEvent(store: SQLiteStore, overrides: Partial<{ type: string; payloa
 
 function makeSub(
   eventType: string,
-  handler: (e: Event) => Promise<void>,
-  opts?: { timeoutMs?: number; retry?: Partial<RetryPolicy> },
+  handler: EventHandler,
+  opts?: { timeoutMs?: number; retry?: Partial<RetryPolicy>; execution?: HandlerExecution },
 ): Subscription {
   return {
     id: crypto.randomUUID(),
@@ -53,6 +55,7 @@ function makeSub(
     createdAt: new Date(),
     timeoutMs: opts?.timeoutMs,
     retry: opts?.retry,
+    execution: opts?.execution,
   };
 }
 
@@ -421,6 +424,596 @@ describe('Dispatcher', () => {
     });
   });
 
+  describe('per-subscription deliveries', () => {
+    it('retries only the failing subscription, not handlers that already succeeded', async () => {
+      let aCalls = 0;
+      let bCalls = 0;
+      const subs = new Map<string, Subscription>();
+      const a = makeSub('test.*', async () => { aCalls++; });
+      const b = makeSub('test.*', async () => { bCalls++; if (bCalls === 1) throw new Error('flaky'); },
+        { retry: { maxRetries: 2, baseDelayMs: 1 } });
+      subs.set(a.id, a);
+      subs.set(b.id, b);
+
+      const event = makeEvent(store);
+      await dispatcher.dispatch(event, subs);
+
+      expect(aCalls).toBe(1);
+      expect(bCalls).toBe(2);
+      expect(store.getDelivery(event.id, a.id)!.status).toBe('done');
+      const bRow = store.getDelivery(event.id, b.id)!;
+      expect(bRow.status).toBe('done');
+      expect(bRow.retry_count).toBe(1);
+      expect(JSON.parse(bRow.last_error!)).toEqual(['flaky']);
+      expect(store.getEvent(event.id)!.status).toBe('done');
+    });
+
+    it('dead-letters only the exhausted subscription; later subscriptions still run', async () => {
+      let cCalls = 0;
+      const subs = new Map<string, Subscription>();
+      const a = makeSub('test.*', async () => {});
+      const b = makeSub('test.*', async () => { throw new Error('broken'); },
+        { retry: { maxRetries: 1, baseDelayMs: 1 } });
+      const c = makeSub('test.*', async () => { cCalls++; });
+      subs.set(a.id, a);
+      subs.set(b.id, b);
+      subs.set(c.id, c);
+
+      const event = makeEvent(store);
+      await dispatcher.dispatch(event, subs);
+
+      expect(cCalls).toBe(1);
+      const bRow = store.getDelivery(event.id, b.id)!;
+      expect(bRow.status).toBe('dlq');
+      expect(bRow.retry_count).toBe(2);
+      expect(bRow.dlq_at).not.toBeNull();
+      expect(JSON.parse(bRow.last_error!)).toEqual(['broken', 'broken']);
+      expect(store.getDelivery(event.id, a.id)!.status).toBe('done');
+      expect(store.getDelivery(event.id, c.id)!.status).toBe('done');
+      expect(store.getEvent(event.id)!.status).toBe('dlq');
+    });
+
+    it('skips deliveries already completed by an earlier dispatch of the same event', async () => {
+      let aCalls = 0;
+      let bCalls = 0;
+      const subs = new Map<string, Subscription>();
+      const a = makeSub('test.*', async () => { aCalls++; });
+      const b = makeSub('test.*', async () => { bCalls++; });
+      subs.set(a.id, a);
+      subs.set(b.id, b);
+
+      const event = makeEvent(store);
+      store.ensureDeliveries(event.id, [a.id, b.id]);
+      store.markDeliveryDone(event.id, a.id);
+      await dispatcher.dispatch(event, subs);
+
+      expect(aCalls).toBe(0);
+      expect(bCalls).toBe(1);
+      expect(store.getEvent(event.id)!.status).toBe('done');
+    });
+
+    it('releases instead of settling an event with deliveries left for a subscription bound elsewhere', async () => {
+      let aCalls = 0;
+      const a = makeSub('test.*', async () => { aCalls++; });
+      const remote = makeSub('test.*', async () => {});
+      store.insertSubscription({ id: remote.id, eventType: remote.eventType, createdAt: new Date().toISOString() });
+      const gone = makeSub('test.*', async () => {}); // no row: nobody can ever run it
+
+      const event = makeEvent(store);
+      store.ensureDeliveries(event.id, [a.id, remote.id]);
+      store.leaseEvent(event.id, 'me', new Date(Date.now() + 30_000).toISOString());
+      await dispatcher.dispatch(event, new Map([[a.id, a]]));
+
+      expect(aCalls).toBe(1);
+      expect(store.getEvent(event.id)).toMatchObject({ status: 'pending', locked_by: null });
+      expect(store.getDelivery(event.id, remote.id)!.status).toBe('pending');
+
+      // Nothing local left to run: released again, not settled
+      await dispatcher.dispatch(event, new Map([[a.id, a]]));
+      expect(store.getEvent(event.id)!.status).toBe('pending');
+
+      const orphaned = makeEvent(store);
+      store.ensureDeliveries(orphaned.id, [gone.id]);
+      await dispatcher.dispatch(orphaned, new Map([[a.id, a]]));
+      expect(store.getEvent(orphaned.id)!.status).toBe('done');
+    });
+  });
+
+  describe('durable retries', () => {
+    it('persists the next attempt and returns instead of waiting out the backoff', async () => {
+      const delayFn = vi.fn(async () => {});
+      const durable = new Dispatcher(store, { durableRetries: true, delayFn, logFn: () => {} });
+      const subs = new Map<string, Subscription>();
+      const s = makeSub('test.*', async () => { throw new Error('down'); },
+        { retry: { maxRetries: 2, baseDelayMs: 60_000, maxDelayMs: 60_000 } });
+      subs.set(s.id, s);
+
+      const event = makeEvent(store);
+      const before = Date.now();
+      await durable.dispatch(event, subs);
+
+      expect(delayFn).not.toHaveBeenCalled();
+      const delivery = store.getDelivery(event.id, s.id)!;
+      expect(delivery.status).toBe('pending');
+      expect(delivery.retry_count).toBe(1);
+      const nextAt = Date.parse(delivery.next_attempt_at!);
+      // baseDelayMs ± 10% jitter, as calculateDelay computes it
+      expect(nextAt - before).toBeGreaterThanOrEqual(54_000);
+      expect(nextAt - before).toBeLessThanOrEqual(66_000 + 1000);
+
+      const row = store.getEvent(event.id)!;
+      expect(row.status).toBe('pending');
+      expect(row.available_at).toBe(delivery.next_attempt_at);
+      expect(row.locked_by).toBeNull();
+    });
+
+    it('resumes persisted retry state on each dispatch and dead-letters when exhausted', async () => {
+      const durable = new Dispatcher(store, { durableRetries: true, logFn: () => {} });
+      let calls = 0;
+      const subs = new Map<string, Subscription>();
+      const s = makeSub('test.*', async () => { calls++; throw new Error(`fail-${calls}`); },
+        { retry: { maxRetries: 2, baseDelayMs: 1 } });
+      subs.set(s.id, s);
+
+      const event = makeEvent(store);
+      for (let i = 0; i < 3; i++) await durable.dispatch(event, subs);
+
+      expect(calls).toBe(3);
+      const delivery = store.getDelivery(event.id, s.id)!;
+      expect(delivery.status).toBe('dlq');
+      expect(delivery.next_attempt_at).toBeNull();
+      const row = store.getEvent(event.id)!;
+      expect(row.status).toBe('dlq');
+      expect(JSON.parse(row.last_error!)).toEqual(['fail-1', 'fail-2', 'fail-3']);
+
+      const metrics = durable.getMetrics('test.event')!;
+      expect(metrics.totalEvents).toBe(1);
+      expect(metrics.totalRetries).toBe(2);
+      expect(metrics.dlqCount).toBe(1);
+    });
+
+    it('does not re-run deliveries that succeeded before the failure', async () => {
+      const durable = new Dispatcher(store, { durableRetries: true, logFn: () => {} });
+      let okCalls = 0;
+      let flakyCalls = 0;
+      const subs = new Map<string, Subscription>();
+      const ok = makeSub('test.*', async () => { okCalls++; });
+      const flaky = makeSub('test.*', async () => { flakyCalls++; if (flakyCalls === 1) throw new Error('once'); },
+        { retry: { maxRetries: 1, baseDelayMs: 1 } });
+      subs.set(ok.id, ok);
+      subs.set(flaky.id, flaky);
+
+      const event = makeEvent(store);
+      await durable.dispatch(event, subs);
+      await durable.dispatch(event, subs);
+
+      expect(okCalls).toBe(1);
+      expect(flakyCalls).toBe(2);
+      expect(store.getEvent(event.id)!.status).toBe('done');
+      expect(durable.getMetrics('test.event')!.successAfterRetry).toBe(1);
+    });
+  });
+
+  describe('attempts log', () => {
+    it('records each invocation with its number, timing, outcome and error details', async () => {
+      let calls = 0;
+      const subs = new Map<string, Subscription>();
+      const s = makeSub('test.*', async () => {
+        if (++calls === 1) throw new RangeError('bad input');
+      });
+      subs.set(s.id, s);
+
+      const event = makeEvent(store);
+      await dispatcher.dispatch(event, subs);
+
+      const attempts = store.getAttempts(event.id);
+      expect(attempts.map((a) => [a.subscription_id, a.attempt, a.outcome])).toEqual([
+        [s.id, 1, 'error'],
+        [s.id, 2, 'success'],
+      ]);
+      const [failed, ok] = attempts;
+      expect(failed.error_message).toBe('bad input');
+      expect(failed.error_name).toBe('RangeError');
+      expect(failed.error_stack).toContain('bad input');
+      expect(failed.duration_ms).toBeGreaterThanOrEqual(0);
+      expect(failed.finished_at! >= failed.started_at).toBe(true);
+      expect(ok.error_message).toBeNull();
+    });
+
+    it('records a timeout as its own outcome', async () => {
+      const subs = new Map<string, Subscription>();
+      const s = makeSub('test.*', () => new Promise(() => {}), { timeoutMs: 10, retry: { maxRetries: 0 } });
+      subs.set(s.id, s);
+
+      const event = makeEvent(store);
+      await dispatcher.dispatch(event, subs);
+
+      const [attempt] = store.getAttempts(event.id);
+      expect(attempt.outcome).toBe('timeout');
+      expect(attempt.error_name).toBe('HandlerTimeoutError');
+      expect(attempt.error_message).toBe('Handler timeout after 10ms');
+    });
+  });
+
+  describe('expiration', () => {
+    it('does not run handlers for an expired event and marks it expired', async () => {
+      const handler = vi.fn(async () => {});
+      const subs = new Map<string, Subscription>();
+      const s = makeSub('test.*', handler);
+      subs.set(s.id, s);
+
+      const event = { ...makeEvent(store), expiresAt: new Date(Date.now() - 1) };
+      await dispatcher.dispatch(event, subs);
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(store.getEvent(event.id)!.status).toBe('expired');
+      expect(dispatcher.getMetrics('test.event')).toMatchObject({ expiredCount: 1, totalEvents: 0 });
+    });
+
+    it('stops retrying when the next attempt would fall after expiresAt', async () => {
+      const delayFn = vi.fn(async () => {});
+      const d = new Dispatcher(store, { delayFn, logFn: () => {} });
+      const subs = new Map<string, Subscription>();
+      const s = makeSub('test.*', async () => { throw new Error('quote service down'); },
+        { retry: { maxRetries: 5, baseDelayMs: 1000 } });
+      subs.set(s.id, s);
+
+      const event = { ...makeEvent(store), expiresAt: new Date(Date.now() + 500) };
+      await d.dispatch(event, subs);
+
+      expect(delayFn).not.toHaveBeenCalled();
+      expect(store.getEvent(event.id)!.status).toBe('expired');
+      const delivery = store.getDelivery(event.id, s.id)!;
+      expect(delivery.status).toBe('expired');
+      expect(delivery.retry_count).toBe(1);
+      expect(d.getMetrics('test.event')!.expiredCount).toBe(1);
+    });
+
+    it('does not schedule a durable retry past expiresAt', async () => {
+      const d = new Dispatcher(store, { durableRetries: true, logFn: () => {} });
+      const subs = new Map<string, Subscription>();
+      const s = makeSub('test.*', async () => { throw new Error('down'); }, { retry: { baseDelayMs: 1000 } });
+      subs.set(s.id, s);
+
+      const event = { ...makeEvent(store), expiresAt: new Date(Date.now() + 500) };
+      await d.dispatch(event, subs);
+
+      const row = store.getEvent(event.id)!;
+      expect(row.status).toBe('expired');
+      expect(store.getDelivery(event.id, s.id)!.next_attempt_at).toBeNull();
+    });
+  });
+
+  describe('parallel handler execution', () => {
+    // Handler that records how many handlers overlap while it runs
+    function tracker() {
+      const state = { active: 0, peak: 0 };
+      const handler = (ms: number, fail?: string) => async () => {
+        state.active++;
+        state.peak = Math.max(state.peak, state.active);
+        await new Promise((r) => setTimeout(r, ms));
+        state.active--;
+        if (fail) throw new Error(fail);
+      };
+      return { state, handler };
+    }
+
+    function subsOf(...list: Subscription[]): Map<string, Subscription> {
+      return new Map(list.map((s) => [s.id, s]));
+    }
+
+    it('runs matching handlers concurrently', async () => {
+      const parallel = new Dispatcher(store, { handlerExecution: 'parallel', logFn: () => {} });
+      const { state, handler } = tracker();
+      const event = makeEvent(store);
+      const started = Date.now();
+      await parallel.dispatch(event, subsOf(
+        makeSub('test.*', handler(40)), makeSub('test.*', handler(40)), makeSub('test.*', handler(40)),
+      ));
+
+      expect(state.peak).toBe(3);
+      expect(Date.now() - started).toBeLessThan(110);
+      expect(store.getEvent(event.id)!.status).toBe('done');
+    });
+
+    it('caps concurrency at handlerConcurrency', async () => {
+      const parallel = new Dispatcher(store, { handlerExecution: 'parallel', handlerConcurrency: 2, logFn: () => {} });
+      const { state, handler } = tracker();
+      const subs = subsOf(...Array.from({ length: 5 }, () => makeSub('test.*', handler(10))));
+      const event = makeEvent(store);
+      await parallel.dispatch(event, subs);
+
+      expect(state.peak).toBe(2);
+      for (const id of subs.keys()) expect(store.getDelivery(event.id, id)!.status).toBe('done');
+    });
+
+    it('records every failure from one attempt', async () => {
+      const parallel = new Dispatcher(store, { handlerExecution: 'parallel', logFn: () => {} });
+      const { handler } = tracker();
+      const a = makeSub('test.*', handler(5, 'a failed'), { retry: { maxRetries: 0 } });
+      const b = makeSub('test.*', handler(1, 'b failed'), { retry: { maxRetries: 0 } });
+      const ok = makeSub('test.*', handler(1));
+      const event = makeEvent(store);
+      await parallel.dispatch(event, subsOf(a, ok, b));
+
+      expect(store.getDelivery(event.id, a.id)!.status).toBe('dlq');
+      expect(store.getDelivery(event.id, b.id)!.status).toBe('dlq');
+      expect(store.getDelivery(event.id, ok.id)!.status).toBe('done');
+      const row = store.getEvent(event.id)!;
+      expect(row.status).toBe('dlq');
+      expect(row.retry_count).toBe(2);
+      expect(JSON.parse(row.last_error!)).toEqual(['a failed', 'b failed']);
+    });
+
+    it('retries all failed handlers together after one backoff', async () => {
+      const delays: number[] = [];
+      const parallel = new Dispatcher(store, {
+        handlerExecution: 'parallel',
+        delayFn: async (ms) => { delays.push(ms); },
+        logFn: () => {},
+      });
+      const calls = { a: 0, b: 0 };
+      const a = makeSub('test.*', async () => { if (++calls.a === 1) throw new Error('a'); }, { retry: { baseDelayMs: 100 } });
+      const b = makeSub('test.*', async () => { if (++calls.b === 1) throw new Error('b'); }, { retry: { baseDelayMs: 100 } });
+      const event = makeEvent(store);
+      await parallel.dispatch(event, subsOf(a, b));
+
+      expect(calls).toEqual({ a: 2, b: 2 });
+      expect(delays).toHaveLength(1);
+      expect(store.getEvent(event.id)!.status).toBe('done');
+    });
+
+    it('applies each handler\'s own timeout and records the timeout as its failure', async () => {
+      const parallel = new Dispatcher(store, { handlerExecution: 'parallel', logFn: () => {} });
+      const slow = makeSub('test.*', () => new Promise(() => {}), { timeoutMs: 20, retry: { maxRetries: 0 } });
+      const fast = makeSub('test.*', async () => {});
+      const event = makeEvent(store);
+      await parallel.dispatch(event, subsOf(slow, fast));
+
+      expect(store.getDelivery(event.id, fast.id)!.status).toBe('done');
+      expect(JSON.parse(store.getDelivery(event.id, slow.id)!.last_error!)).toEqual(['Handler timeout after 20ms']);
+    });
+
+    it('honours per-subscription overrides of the default mode', async () => {
+      const { state, handler } = tracker();
+      const order: string[] = [];
+      const mark = (name: string, ms: number) => async () => {
+        order.push(`${name}:start(${state.active} running)`);
+        await handler(ms)();
+      };
+      const subs = subsOf(
+        makeSub('test.*', mark('p1', 20), { execution: 'parallel' }),
+        makeSub('test.*', mark('p2', 20), { execution: 'parallel' }),
+        makeSub('test.*', mark('s', 5)),
+      );
+      await dispatcher.dispatch(makeEvent(store), subs);
+
+      expect(state.peak).toBe(2);
+      // the sequential subscription waits for the parallel group to finish
+      expect(order).toEqual(['p1:start(0 running)', 'p2:start(1 running)', 's:start(0 running)']);
+    });
+  });
+
+  describe('handler context', () => {
+    it('passes attempt numbers, maxAttempts and the subscription ID', async () => {
+      const seen: Array<[number, number, string]> = [];
+      const subs = new Map<string, Subscription>();
+      const s = makeSub('test.*', async (_event, ctx) => {
+        seen.push([ctx.attempt, ctx.maxAttempts, ctx.subscriptionId]);
+        if (ctx.attempt < 3) throw new Error('again');
+      }, { retry: { maxRetries: 4 } });
+      subs.set(s.id, s);
+
+      await dispatcher.dispatch(makeEvent(store), subs);
+
+      expect(seen).toEqual([[1, 5, s.id], [2, 5, s.id], [3, 5, s.id]]);
+    });
+
+    it('aborts the signal when the handler times out', async () => {
+      let signal: AbortSignal | undefined;
+      const subs = new Map<string, Subscription>();
+      const s = makeSub('test.*', (_event, ctx) => {
+        signal = ctx.signal;
+        return new Promise(() => {});
+      }, { timeoutMs: 10, retry: { maxRetries: 0 } });
+      subs.set(s.id, s);
+
+      await dispatcher.dispatch(makeEvent(store), subs);
+
+      expect(signal!.aborted).toBe(true);
+      expect((signal!.reason as Error).name).toBe('HandlerTimeoutError');
+    });
+
+    it('abortAll() aborts handlers still running', async () => {
+      const subs = new Map<string, Subscription>();
+      const s = makeSub('test.*', (_event, ctx) => new Promise((_, reject) => {
+        ctx.signal.addEventListener('abort', () => reject(ctx.signal.reason));
+      }), { retry: { maxRetries: 0 } });
+      subs.set(s.id, s);
+
+      const event = makeEvent(store);
+      const running = dispatcher.dispatch(event, subs);
+      dispatcher.abortAll(new Error('stopping'));
+      await running;
+
+      expect(store.getEvent(event.id)!.last_error).toContain('stopping');
+    });
+
+    it('logger entries carry the event, subscription and attempt', async () => {
+      const entries: HandlerLogEntry[] = [];
+      const logged = new Dispatcher(store, { handlerLogFn: (entry) => entries.push(entry) });
+      const subs = new Map<string, Subscription>();
+      const s = makeSub('test.*', async (_event, ctx) => {
+        ctx.logger.info('charging card', { amount: 42 });
+      });
+      subs.set(s.id, s);
+
+      const event = makeEvent(store);
+      await logged.dispatch(event, subs);
+
+      expect(entries).toEqual([{
+        level: 'info',
+        message: 'charging card',
+        amount: 42,
+        event_id: event.id,
+        event_type: 'test.event',
+        subscription_id: s.id,
+        attempt: 1,
+      }]);
+    });
+
+    it('context.publish rejects without a publish function', async () => {
+      let error: unknown;
+      const subs = new Map<string, Subscription>();
+      const s = makeSub('test.*', async (_event, ctx) => {
+        await ctx.publish('follow.up', {}).catch((err) => { error = err; });
+      });
+      subs.set(s.id, s);
+
+      await dispatcher.dispatch(makeEvent(store), subs);
+
+      expect((error as Error).message).toContain('context.publish is unavailable');
+    });
+  });
+
+  describe('error classification', () => {
+    let delays: number[];
+    let logs: RetryLogEntry[];
+    let classifying: Dispatcher;
+
+    class RateLimitError extends Error {
+      constructor(readonly retryAfterMs?: number) {
+        super('rate limited');
+      }
+    }
+
+    beforeEach(() => {
+      delays = [];
+      logs = [];
+      classifying = new Dispatcher(store, {
+        delayFn: async (ms) => { delays.push(ms); },
+        logFn: (entry) => logs.push(entry),
+      });
+    });
+
+    it('dead-letters a PermanentError without retrying', async () => {
+      let calls = 0;
+      const subs = new Map<string, Subscription>();
+      const s = makeSub('test.*', async () => {
+        calls++;
+        throw new PermanentError('unknown customer');
+      });
+      subs.set(s.id, s);
+
+      const event = makeEvent(store);
+      await classifying.dispatch(event, subs);
+
+      expect(calls).toBe(1);
+      expect(delays).toEqual([]);
+      expect(store.getEvent(event.id)!.status).toBe('dlq');
+      expect(store.getDelivery(event.id, s.id)!.retry_count).toBe(1);
+      expect(logs).toMatchObject([{ attempt: 1, delay_ms: 0, retryable: false, error: 'unknown customer' }]);
+    });
+
+    it('isRetryable vetoes retries for the errors it rejects', async () => {
+      const thrown = [new Error('timeout'), new TypeError('bad payload')];
+      const subs = new Map<string, Subscription>();
+      const s = makeSub('test.*', async () => { throw thrown.shift(); },
+        { retry: { baseDelayMs: 10, isRetryable: (err) => !(err instanceof TypeError) } });
+      subs.set(s.id, s);
+
+      const event = makeEvent(store);
+      await classifying.dispatch(event, subs);
+
+      expect(delays).toHaveLength(1);
+      expect(logs.map((l) => l.retryable)).toEqual([true, false]);
+      expect(JSON.parse(store.getEvent(event.id)!.last_error!)).toEqual(['timeout', 'bad payload']);
+      expect(store.getEvent(event.id)!.status).toBe('dlq');
+    });
+
+    it('applies the first matching error rule', async () => {
+      const thrown: Error[] = [new RateLimitError(), new RangeError('out of range')];
+      const subs = new Map<string, Subscription>();
+      const s = makeSub('test.*', async () => { throw thrown.shift(); }, {
+        retry: {
+          baseDelayMs: 10,
+          errorRules: [
+            { match: RateLimitError, baseDelayMs: 5000, backoffMultiplier: 1 },
+            { match: (err) => err instanceof RangeError, retryable: false },
+          ],
+        },
+      });
+      subs.set(s.id, s);
+
+      const event = makeEvent(store);
+      await classifying.dispatch(event, subs);
+
+      expect(delays).toHaveLength(1);
+      expect(delays[0]).toBeGreaterThanOrEqual(4500);
+      expect(delays[0]).toBeLessThanOrEqual(5500);
+      expect(store.getEvent(event.id)!.status).toBe('dlq');
+    });
+
+    it('honours retryAfterMs on the error instead of the computed backoff', async () => {
+      let calls = 0;
+      const subs = new Map<string, Subscription>();
+      const s = makeSub('test.*', async () => {
+        if (++calls === 1) throw new RateLimitError(1234);
+      }, { retry: { baseDelayMs: 10 } });
+      subs.set(s.id, s);
+
+      const event = makeEvent(store);
+      await classifying.dispatch(event, subs);
+
+      expect(delays).toEqual([1234]);
+      expect(store.getEvent(event.id)!.status).toBe('done');
+    });
+
+    it('a throwing isRetryable, error rule or backoff callback dead-letters the delivery', async () => {
+      const broken = new Dispatcher(store, {
+        delayFn: async () => {},
+        logFn: () => {},
+        backoffStrategies: { unavailable: () => { throw new Error('no schedule'); } },
+      });
+      const fail = async () => { throw new Error('handler failed'); };
+      const subs = [
+        makeSub('test.*', fail, { retry: { isRetryable: () => { throw new Error('veto broke'); } } }),
+        makeSub('test.*', fail, { retry: { errorRules: [{ match: () => { throw new Error('rule broke'); } }] } }),
+        makeSub('test.*', fail, { retry: { backoff: 'unavailable' } }),
+      ];
+
+      const event = makeEvent(store);
+      await broken.dispatch(event, new Map(subs.map((sub) => [sub.id, sub])));
+
+      expect(subs.map((sub) => store.getDelivery(event.id, sub.id)!.status)).toEqual(['dlq', 'dlq', 'dlq']);
+      expect(subs.map((sub) => JSON.parse(store.getDelivery(event.id, sub.id)!.last_error!))).toEqual([
+        ['handler failed', 'retry policy failed: veto broke'],
+        ['handler failed', 'retry policy failed: rule broke'],
+        ['handler failed', 'retry policy failed: no schedule'],
+      ]);
+      expect(store.getEvent(event.id)!.status).toBe('dlq');
+    });
+
+    it('a permanent failure in one subscription does not stop the others retrying', async () => {
+      let flakyCalls = 0;
+      const subs = new Map<string, Subscription>();
+      const doomed = makeSub('test.*', async () => { throw new PermanentError('invalid'); }, { execution: 'parallel' });
+      const flaky = makeSub('test.*', async () => {
+        if (++flakyCalls === 1) throw new Error('transient');
+      }, { execution: 'parallel', retry: { baseDelayMs: 10 } });
+      subs.set(doomed.id, doomed);
+      subs.set(flaky.id, flaky);
+
+      const event = makeEvent(store);
+      await classifying.dispatch(event, subs);
+
+      expect(flakyCalls).toBe(2);
+      expect(store.getDelivery(event.id, doomed.id)!.status).toBe('dlq');
+      expect(store.getDelivery(event.id, flaky.id)!.status).toBe('done');
+      expect(store.getEvent(event.id)!.status).toBe('dlq');
+    });
+  });
+
   // --- CHK-017: Jitter ---
 
   describe('jitter ±10% (CHK-017)', () => {
@@ -1,19 +1,123 @@
 import { SQLiteStore } from '../store/index.js';
-import type { Event, Subscription, RetryPolicy } from '../types/index.js';
+import type {
+  BackoffFn, CircuitBreakerOptions, ErrorMatcher, Event, HandlerContext, HandlerExecution, HandlerLogger, HandlerMiddleware,
+  PublishOptions, Subscription, RetryPolicy,
+} from '../types/index.js';
 import { DEFAULT_RETRY_POLICY } from '../types/index.js';
 import { matchGlob } from '../bus/glob.js';
+import { BACKOFF_NAMES, assertBackoffStrategy, computeBackoff } from './backoff.js';
+import { CircuitBreakers, type CircuitTransition } from './circuit-breaker.js';
+import { composeHandler } from './middleware.js';
+
+export type { CircuitBreakers, CircuitBreakerSnapshot, CircuitState, CircuitTransition } from './circuit-breaker.js';
 
 export const DEFAULT_HANDLER_TIMEOUT_MS = 30_000;
-const CIRCUIT_BREAKER_WINDOW_MS = 60_000;
-const CIRCUIT_BREAKER_MIN_SAMPLES = 4;
-const CIRCUIT_BREAKER_FAILURE_THRESHOLD = 0.5;
-const CIRCUIT_BREAKER_PAUSE_MS = 30_000;
+
+/** Thrown (and recorded as a `timeout` attempt) when a handler outlives its timeoutMs. */
+export class HandlerTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Handler timeout after ${timeoutMs}ms`);
+    this.name = 'HandlerTimeoutError';
+  }
+}
+
+/**
+ * Throw from a handler for failures no retry can fix (validation, unknown entity, ...): the delivery
+ * is dead-lettered on the spot instead of burning its retry budget.
+ */
+export class PermanentError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'PermanentError';
+  }
+}
 
 export interface DispatcherOptions {
   /** Injectable delay for testing (default: real setTimeout-based delay) */
   delayFn?: (ms: number) => Promise<void>;
   /** Injectable log function for testing (default: console.warn) */
   logFn?: (entry: RetryLogEntry) => void;
+  /**
+   * Persist each retry instead of awaiting the backoff in-process (default: false). A failed attempt
+   * records the delivery's retry state, puts the event back to `pending` with `available_at` set to the
+   * next attempt, and returns; the background worker re-dispatches it once due. Survives crashes.
+   */
+  durableRetries?: boolean;
+  /**
+   * How handlers matching one event run (default: 'sequential'); a subscription's `execution` overrides
+   * it. Consecutive parallel subscriptions run together; a sequential one runs alone, in order.
+   */
+  handlerExecution?: HandlerExecution;
+  /** Max parallel handlers running at once for one event (default: unlimited) */
+  handlerConcurrency?: number;
+  /** Wraps every handler invocation, outside each subscription's own `middleware`; first entry outermost */
+  handlerMiddleware?: HandlerMiddleware[];
+  /** Sink for handlers' `context.logger` entries (default: console, by level, as JSON) */
+  handlerLogFn?: (entry: HandlerLogEntry) => void;
+  /** Custom backoff callbacks, referenced by name from `RetryPolicy.backoff` so policies stay serializable */
+  backoffStrategies?: Record<string, BackoffFn>;
+  /** Breaker settings for every subscription; a subscription's `circuitBreaker` overrides them (default: DEFAULT_CIRCUIT_BREAKER) */
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
+  /** Keep breaker state in SQLite so a breaker open at shutdown is still open after a restart (default: false) */
+  persistCircuitBreakers?: boolean;
+  /** Called on every breaker state change; a throwing observer is logged and ignored */
+  onCircuitTransition?: (transition: CircuitTransition) => void;
+  /** Called when parked deliveries go back to the queue; EventBus wakes its worker (default: no-op) */
+  onParkedReleased?: () => void;
+  /** Backs `context.publish`; EventBus supplies its own publish (default: none — context.publish rejects) */
+  publish?: PublishFn;
+  /** Observers of delivery outcomes (EventBus turns them into lifecycle events); a throwing one is logged and ignored */
+  hooks?: DispatchHooks;
+}
+
+/** Called as deliveries fail, get a retry scheduled, or are dead-lettered. */
+export interface DispatchHooks {
+  handlerFailed?: (info: HandlerFailedInfo) => void;
+  retryScheduled?: (info: RetryScheduledInfo) => void;
+  deadLettered?: (info: DeadLetteredInfo) => void;
+}
+
+export interface HandlerFailedInfo {
+  event: Event;
+  subscriptionId: string;
+  attempt: number;
+  maxAttempts: number;
+  error: unknown;           // the value the handler threw
+  message: string;
+  retryable: boolean;       // false when the error itself ruled out a retry
+  willRetry: boolean;       // false when this failure dead-letters the delivery
+}
+
+export interface RetryScheduledInfo {
+  event: Event;
+  subscriptionId: string;
+  attempt: number;          // the attempt that will run next
+  delayMs: number;
+  durable: boolean;         // persisted for the worker (durableRetries) rather than awaited in-process
+}
+
+export interface DeadLetteredInfo {
+  event: Event;
+  subscriptionId: string;
+  attempts: number;
+  errors: string[];         // one entry per failed attempt
+}
+
+export type PublishFn = (
+  eventType: string,
+  payload: unknown,
+  metadata?: Record<string, string>,
+  options?: PublishOptions,
+) => Promise<string>;
+
+export interface HandlerLogEntry {
+  level: 'debug' | 'info' | 'warn' | 'error';
+  message: string;
+  event_id: string;
+  event_type: string;
+  subscription_id: string;
+  attempt: number;
+  [field: string]: unknown;
 }
 
 export interface RetryLogEntry {
@@ -25,6 +129,7 @@ export interface RetryLogEntry {
   max_attempts: number;
   delay_ms: number;
   error: string;
+  retryable: boolean;       // false when the error itself ruled out a retry (PermanentError, isRetryable, errorRules)
 }
 
 export interface RetryMetrics {
@@ -32,244 +137,573 @@ export interface RetryMetrics {
   successAfterRetry: number;
   dlqCount: number;
   totalEvents: number;
+  expiredCount: number;     // events dropped because their expiresAt passed before delivery finished
 }
 
-interface CircuitBreakerState {
-  outcomes: { timestamp: number; success: boolean }[];
-  state: 'closed' | 'open' | 'half-open';
-  openedAt: number;
-  probeInFlight: boolean;
+interface HandlerFailure {
+  subscriptionId: string;
+  error: string;
+  thrown: unknown;          // the value the handler threw, for retry classification
+}
+
+interface RetryDecision {
+  retryable: boolean;
+  delayMs: number;
+}
+
+interface HandlerRunResult {
+  succeededSubIds: string[];
+  failures: HandlerFailure[]; // in subscription order
 }
 
 export class Dispatcher {
   private store: SQLiteStore;
   private delayFn: (ms: number) => Promise<void>;
   private logFn: (entry: RetryLogEntry) => void;
-  private circuitBreakers = new Map<string, CircuitBreakerState>();
+  private durableRetries: boolean;
+  private handlerExecution: HandlerExecution;
+  private handlerConcurrency: number;
+  private handlerLogFn: (entry: HandlerLogEntry) => void;
+  private handlerMiddleware: HandlerMiddleware[];
+  private publishFn: PublishFn | undefined;
+  private backoffStrategies: Map<string, BackoffFn>;
+  private running = new Set<AbortController>();
+  private circuitBreakers: CircuitBreakers;
+  private onParkedReleased: () => void;
+  private hooks: DispatchHooks;
   private metrics = new Map<string, RetryMetrics>();
 
   constructor(store: SQLiteStore, options?: DispatcherOptions) {
     this.store = store;
     this.delayFn = options?.delayFn ?? ((ms) => new Promise((r) => setTimeout(r, ms)));
     this.logFn = options?.logFn ?? ((entry) => console.warn(JSON.stringify(entry)));
+    this.durableRetries = options?.durableRetries ?? false;
+    this.handlerExecution = options?.handlerExecution ?? 'sequential';
+    this.handlerConcurrency = Math.max(1, options?.handlerConcurrency ?? Infinity);
+    this.handlerLogFn = options?.handlerLogFn ?? ((entry) => console[entry.level](JSON.stringify(entry)));
+    this.handlerMiddleware = [...options?.handlerMiddleware ?? []];
+    this.publishFn = options?.publish;
+    this.onParkedReleased = options?.onParkedReleased ?? (() => {});
+    this.hooks = options?.hooks ?? {};
+    this.circuitBreakers = new CircuitBreakers(store, {
+      defaults: options?.circuitBreaker,
+      persist: options?.persistCircuitBreakers,
+      onTransition: options?.onCircuitTransition,
+      onParkedReleased: () => this.onParkedReleased(),
+      storeOp: (fn) => this.storeOp(fn),
+    });
+    this.backoffStrategies = new Map(Object.entries(options?.backoffStrategies ?? {}));
+    for (const name of this.backoffStrategies.keys()) {
+      if ((BACKOFF_NAMES as readonly string[]).includes(name)) {
+        throw new TypeError(`Backoff strategy "${name}" is built in and cannot be replaced`);
+      }
+    }
   }
 
-  getMetrics(eventType: string): RetryMetrics | undefined {
-    return this.metrics.get(eventType);
-  }
-
-  private ensureMetrics(eventType: string): RetryMetrics {
-    let m = this.metrics.get(eventType);
-    if (!m) {
-      m = { totalRetries: 0, successAfterRetry: 0, dlqCount: 0, totalEvents: 0 };
-      this.metrics.set(eventType, m);
+  /** Throw a TypeError for a subscription retry override that names an unknown backoff strategy. */
+  assertRetryPolicy(retry: Partial<RetryPolicy> | undefined): void {
+    if (retry?.backoff !== undefined) assertBackoffStrategy(retry.backoff, this.backoffStrategies);
+    for (const rule of retry?.errorRules ?? []) {
+      if (rule.backoff !== undefined) assertBackoffStrategy(rule.backoff, this.backoffStrategies);
     }
-    return m;
   }
 
-  private getCircuitBreaker(subId: string): CircuitBreakerState {
-    let cb = this.circuitBreakers.get(subId);
-    if (!cb) {
-      cb = { outcomes: [], state: 'closed', openedAt: 0, probeInFlight: false };
-      this.circuitBreakers.set(subId, cb);
-    }
-    return cb;
+  /** Add handler middleware for every subscription, inside the middleware registered before it. */
+  useHandler(middleware: HandlerMiddleware): void {
+    this.handlerMiddleware.push(middleware);
   }
 
-  private recordOutcome(subId: string, success: boolean): void {
-    const cb = this.getCircuitBreaker(subId);
-    const now = Date.now();
-    cb.outcomes.push({ timestamp: now, success });
-
-    // Prune outcomes outside 1-minute window
-    const cutoff = now - CIRCUIT_BREAKER_WINDOW_MS;
-    cb.outcomes = cb.outcomes.filter((o) => o.timestamp > cutoff);
-
-    if (cb.state === 'half-open') {
-      cb.probeInFlight = false;
-      // Probe result
-      if (success) {
-        cb.state = 'closed';
-        cb.outcomes = [];
-      } else {
-        cb.state = 'open';
-        cb.openedAt = now;
-      }
-      return;
-    }
+  /** Abort the signal of every handler still running (e.g. shutdown gave up waiting for them). */
+  abortAll(reason?: unknown): void {
+    for (const controller of this.running) controller.abort(reason);
+  }
 
-    // Check if circuit should trip
-    if (cb.outcomes.length >= CIRCUIT_BREAKER_MIN_SAMPLES) {
-      const failures = cb.outcomes.filter((o) => !o.success).length;
-      const failureRate = failures / cb.outcomes.length;
-      if (failureRate > CIRCUIT_BREAKER_FAILURE_THRESHOLD) {
-        cb.state = 'open';
-        cb.openedAt = now;
-      }
-    }
+  /** Inspect and override the per-subscription circuit breakers. */
+  getCircuitBreakers(): CircuitBreakers {
+    return this.circuitBreakers;
   }
 
-  private isCircuitOpen(subId: string): boolean {
-    const cb = this.circuitBreakers.get(subId);
-    if (!cb || cb.state === 'closed') return false;
+  getMetrics(eventType: string): RetryMetrics | undefined {
+    return this.metrics.get(eventType);
+  }
 
-    if (cb.state === 'open') {
-      const elapsed = Date.now() - cb.openedAt;
-      if (elapsed >= CIRCUIT_BREAKER_PAUSE_MS) {
-        cb.state = 'half-open';
-        cb.probeInFlight = true;
-        return false; // allow single probe
-      }
-      return true;
+  private ensureMetrics(eventType: string): RetryMetrics {
+    let m = this.metrics.get(eventType);
+    if (!m) {
+      m = { totalRetries: 0, successAfterRetry: 0, dlqCount: 0, totalEvents: 0, expiredCount: 0 };
+      this.metrics.set(eventType, m);
     }
-
-    // half-open: block if probe already in flight
-    if (cb.probeInFlight) return true;
-    cb.probeInFlight = true;
-    return false;
+    return m;
   }
 
   /**
    * Dispatch an event to matching subscriptions with retry, timeout, and DLQ routing.
-   * Handlers are invoked sequentially. Failure tracking is per-event.
+   * Handlers run in subscription order under `handlerExecution` (see runHandlers): a sequential
+   * subscription runs alone, consecutive parallel ones run together. Failure tracking is per-delivery:
+   * each (event, subscription) pair has its own row in `deliveries`, so a retry re-runs only the subscriptions that have not
+   * succeeded yet, and a subscription that exhausts its budget is dead-lettered on its own while
+   * the rest carry on. The event ends in `dlq` if any of its deliveries did, `done` otherwise.
+   * A failure the error itself marks as not worth retrying (see retryDecision) dead-letters its delivery at once.
+   * A matching subscription whose circuit is open is not skipped: its delivery is parked, the event ends
+   * `parked` once nothing else is left to run, and it is requeued when that circuit closes again.
+   * With `durableRetries`, each call makes one attempt per pending delivery and, on a retryable
+   * failure, schedules the next one in SQLite and returns instead of sleeping through the backoff.
+   * Deliveries are created by the event's first dispatch only; to deliver an already-dispatched event
+   * to another subscription (durable catch-up), create its delivery first with `store.ensureDeliveries`.
+   * An event with deliveries left for subscriptions bound in another process (e.g. claimed by this
+   * process's worker for a sibling's durable retry) is released back to pending instead of being settled.
    */
   async dispatch(event: Event, subscriptions: Map<string, Subscription>): Promise<void> {
-    // Find matching subscriptions, filtering circuit-broken ones
+    // Past its deadline: drop it instead of running handlers
+    if (isExpired(event, Date.now())) {
+      this.expire(event);
+      return;
+    }
+
+    // The first dispatch fixes the delivery set: later passes (retries, released parked deliveries, DLQ
+    // re-runs) only run the deliveries it created, never subscriptions bound since
+    const known = this.storeOp(() => this.store.getDeliveries(event.id)) ?? [];
+    const deliverTo = known.length > 0 ? new Set(known.map((d) => d.subscription_id)) : null;
+
+    // Find matching subscriptions; circuit-broken ones get their delivery parked instead
     const matching: Subscription[] = [];
+    const parked: string[] = [];
     for (const sub of subscriptions.values()) {
-      if (matchGlob(sub.eventType, event.type)) {
-        if (!this.isCircuitOpen(sub.id)) {
-          matching.push(sub);
-        }
+      if (matchGlob(sub.eventType, event.type) && (deliverTo === null || deliverTo.has(sub.id))) {
+        if (this.circuitBreakers.isOpen(sub)) parked.push(sub.id);
+        else matching.push(sub);
       }
     }
+    if (parked.length > 0) {
+      this.storeOp(() => this.store.parkDeliveries(event.id, parked));
+      for (const subId of parked) this.circuitBreakers.scheduleProbe(subId);
+    }
 
     if (matching.length === 0) {
-      this.storeOp(() => this.store.updateEventStatus(event.id, 'done'));
+      // Deliveries left for subscriptions bound in another process: hand the event back to its worker
+      if (this.storeOp(() => this.awaitsOtherProcess(event.id, subscriptions))) {
+        this.storeOp(() => this.store.releaseEvent(event.id));
+        return;
+      }
+      // Nothing to run; an event re-dispatched to a subset of subscriptions keeps its dead letters
+      const dead = this.storeOp(() => this.hasDeadDelivery(event.id));
+      this.storeOp(() => this.store.updateEventStatus(event.id, dead ? 'dlq' : this.settledStatus(event.id, parked)));
       return;
     }
 
     // Transition to processing
     this.storeOp(() => this.store.updateEventStatus(event.id, 'processing'));
 
+    // Event-level error history, resumed from earlier attempts (durable retries, crash recovery)
+    const stored = this.storeOp(() => this.store.getEvent(event.id));
+    const errorHistory = parseErrorHistory(stored?.last_error);
+    const priorFailures = errorHistory.length;
+    let retryCount = stored?.retry_count ?? 0;
+
     // Track metrics
     const m = this.ensureMetrics(event.type);
-    m.totalEvents++;
+    if (priorFailures === 0) m.totalEvents++;
+    else m.totalRetries++;
 
     // Resolve retry policy: merge all matching subscriptions' overrides (most permissive wins)
     const policy = this.mergeRetryPolicies(matching);
-
     const maxAttempts = policy.maxRetries + 1;
-    const errorHistory: string[] = [];
 
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-      // Wait before retry (not before first attempt)
-      if (attempt > 1) {
-        const delay = this.calculateDelay(attempt, policy);
-        await this.delayFn(delay);
-        m.totalRetries++;
+    // Load per-subscription state; deliveries finished by an earlier dispatch are not re-run
+    const rows = this.storeOp(() => {
+      this.store.resumeParkedDeliveries(event.id, matching.map((s) => s.id));
+      this.store.ensureDeliveries(event.id, matching.map((s) => s.id));
+      return this.store.getDeliveries(event.id);
+    }) ?? [];
+    const deliveries = new Map<string, { retryCount: number; errors: string[]; lastDelayMs?: number }>();
+    let deadLettered = false;
+    let retryScheduled = false;
+    let expired = false;
+    for (const row of rows) {
+      if (row.status !== 'pending') continue;
+      if (row.retry_count >= maxAttempts) {
+        // Budget already spent by attempts that never finished (the process died mid-handler)
+        deadLettered = true;
+        this.storeOp(() => this.store.moveDeliveryToDlq(event.id, row.subscription_id, row.retry_count, row.last_error ?? '[]'));
+        this.notify('deadLettered', {
+          event,
+          subscriptionId: row.subscription_id,
+          attempts: row.retry_count,
+          errors: parseErrorHistory(row.last_error),
+        });
+        continue;
       }
+      deliveries.set(row.subscription_id, {
+        retryCount: row.retry_count,
+        errors: row.last_error ? JSON.parse(row.last_error) as string[] : [],
+      });
+    }
+
+    let pending = matching.filter((s) => deliveries.has(s.id));
 
-      const result = await this.runHandlers(event, matching);
+    try {
+      while (pending.length > 0) {
+        const result = await this.runHandlers(event, pending, (subId) => deliveries.get(subId)!.retryCount + 1, maxAttempts);
 
-      if (result.success) {
-        // Record success outcome for circuit breaker on all matching subs
-        for (const sub of matching) {
-          this.recordOutcome(sub.id, true);
+        for (const succeededId of result.succeededSubIds) {
+          this.circuitBreakers.record(matching.find((s) => s.id === succeededId)!, true);
+          this.storeOp(() => this.store.markDeliveryDone(event.id, succeededId));
         }
-        // Update retry count and errors if we had previous failures
-        if (errorHistory.length > 0) {
-          this.storeOp(() => this.store.updateEventRetry(event.id, errorHistory.length, JSON.stringify(errorHistory)));
-          m.successAfterRetry++;
+        if (result.failures.length === 0) break;
+        const settled = new Set(result.succeededSubIds);
+
+        // Every handler that failed this attempt is charged; the backoff waits for the slowest schedule
+        const retrying: HandlerFailure[] = [];
+        let nextDelay = 0;
+        for (const { subscriptionId: failedId, error, thrown } of result.failures) {
+          const sub = matching.find((s) => s.id === failedId)!;
+          this.circuitBreakers.record(sub, false);
+          const delivery = deliveries.get(failedId)!;
+          delivery.retryCount++;
+          delivery.errors.push(error);
+          errorHistory.push(error);
+          retryCount++;
+
+          let decision: RetryDecision;
+          try {
+            decision = this.retryDecision(event, sub, thrown, delivery.retryCount + 1, policy, delivery.lastDelayMs);
+          } catch (err) {
+            // A throwing isRetryable, errorRules match or backoff callback dead-letters the delivery: failing the
+            // dispatch instead would leave the event `processing` under a lease the heartbeat keeps renewing
+            const policyError = `retry policy failed: ${err instanceof Error ? err.message : String(err)}`;
+            delivery.errors.push(policyError);
+            errorHistory.push(policyError);
+            decision = { retryable: false, delayMs: 0 };
+          }
+          const exhausted = !decision.retryable || delivery.retryCount >= maxAttempts;
+          // Delay for log (0 for final attempt since no next retry)
+          const delay = exhausted ? 0 : decision.delayMs;
+          delivery.lastDelayMs = delay;
+
+          // Emit structured log for this attempt (including final)
+          this.logFn({
+            level: 'warn',
+            event_id: event.id,
+            event_type: event.type,
+            subscription_id: failedId,
+            attempt: delivery.retryCount,
+            max_attempts: maxAttempts,
+            delay_ms: delay,
+            error,
+            retryable: decision.retryable,
+          });
+          this.notify('handlerFailed', {
+            event,
+            subscriptionId: failedId,
+            attempt: delivery.retryCount,
+            maxAttempts,
+            error: thrown,
+            message: error,
+            retryable: decision.retryable,
+            willRetry: !exhausted,
+          });
+
+          if (exhausted) {
+            // Dead-letter this delivery only; the remaining subscriptions continue
+            deadLettered = true;
+            settled.add(failedId);
+            this.storeOp(() => this.store.moveDeliveryToDlq(
+              event.id, failedId, delivery.retryCount, JSON.stringify(delivery.errors),
+            ));
+            this.notify('deadLettered', {
+              event, subscriptionId: failedId, attempts: delivery.retryCount, errors: [...delivery.errors],
+            });
+          } else {
+            retrying.push({ subscriptionId: failedId, error, thrown });
+            nextDelay = Math.max(nextDelay, delay);
+          }
+        }
+        this.storeOp(() => this.store.updateEventRetry(event.id, retryCount, JSON.stringify(errorHistory)));
+        pending = pending.filter((s) => !settled.has(s.id));
+
+        // Only exhausted failures: run the rest right away
+        if (retrying.length === 0) continue;
+
+        if (isExpired(event, Date.now() + nextDelay)) {
+          // The next attempt would come too late: keep the attempt history and stop here
+          for (const { subscriptionId } of retrying) {
+            const delivery = deliveries.get(subscriptionId)!;
+            this.storeOp(() => this.store.updateDeliveryRetry(
+              event.id, subscriptionId, delivery.retryCount, JSON.stringify(delivery.errors),
+            ));
+          }
+          expired = true;
+          break;
         }
-        this.storeOp(() => this.store.updateEventStatus(event.id, 'done'));
-        return;
-      }
-
-      // Record per-sub outcomes: success for subs that ran before the failure, failure for the failed sub
-      const executedIds = new Set(result.succeededSubIds);
-      if (result.failedSubscriptionId) executedIds.add(result.failedSubscriptionId);
-
-      for (const succeededId of result.succeededSubIds) {
-        this.recordOutcome(succeededId, true);
-      }
-      if (result.failedSubscriptionId) {
-        this.recordOutcome(result.failedSubscriptionId, false);
-      }
 
-      // Release probeInFlight for half-open subs that were never executed
-      for (const sub of matching) {
-        if (!executedIds.has(sub.id)) {
-          const cb = this.circuitBreakers.get(sub.id);
-          if (cb && cb.state === 'half-open' && cb.probeInFlight) {
-            cb.probeInFlight = false;
+        if (this.durableRetries) {
+          // Hand the event back to the worker; remaining deliveries run on the next attempt
+          const nextAttemptAt = new Date(Date.now() + nextDelay).toISOString();
+          for (const { subscriptionId } of retrying) {
+            const delivery = deliveries.get(subscriptionId)!;
+            this.storeOp(() => this.store.scheduleDeliveryRetry(
+              event.id, subscriptionId, delivery.retryCount, JSON.stringify(delivery.errors), nextAttemptAt,
+            ));
+            this.notify('retryScheduled', {
+              event, subscriptionId, attempt: delivery.retryCount + 1, delayMs: nextDelay, durable: true,
+            });
           }
+          retryScheduled = true;
+          break;
         }
+
+        for (const { subscriptionId } of retrying) {
+          const delivery = deliveries.get(subscriptionId)!;
+          this.storeOp(() => this.store.updateDeliveryRetry(
+            event.id, subscriptionId, delivery.retryCount, JSON.stringify(delivery.errors),
+          ));
+          this.notify('retryScheduled', {
+            event, subscriptionId, attempt: delivery.retryCount + 1, delayMs: nextDelay, durable: false,
+          });
+        }
+        await this.delayFn(nextDelay);
+        m.totalRetries++;
       }
+    } finally {
+      // Release probeInFlight for half-open subs that were never executed
+      for (const sub of matching) this.circuitBreakers.releaseUnusedProbe(sub.id);
+    }
+
+    if (expired) {
+      this.expire(event);
+      return;
+    }
+    if (retryScheduled) return;
+
+    const handBack = this.storeOp(() => this.awaitsOtherProcess(event.id, subscriptions)) ?? false;
+    if (deadLettered) {
+      m.dlqCount++;
+      this.storeOp(() => this.store.transaction(() => {
+        this.store.moveEventToDlq(event.id, JSON.stringify(errorHistory));
+        // The other process's dispatch puts it back in the DLQ once its deliveries have run
+        if (handBack) this.store.releaseEvent(event.id);
+      }));
+      return;
+    }
+    if (handBack) {
+      this.storeOp(() => this.store.releaseEvent(event.id));
+      return;
+    }
+    // Deliveries dead-lettered earlier, or concurrently by another process, keep the event in the DLQ
+    if (this.storeOp(() => this.hasDeadDelivery(event.id))) {
+      // Keep the error history and dlq_at from when that happened
+      this.storeOp(() => this.store.updateEventStatus(event.id, 'dlq'));
+      return;
+    }
 
-      // Record failure
-      errorHistory.push(result.error!);
-      this.storeOp(() => this.store.updateEventRetry(event.id, attempt, JSON.stringify(errorHistory)));
+    if (errorHistory.length > 0) m.successAfterRetry++;
+    const status = this.settledStatus(event.id, parked);
+    this.storeOp(() => this.store.updateEventStatus(event.id, status));
+    if (status === 'pending') this.onParkedReleased();
+  }
 
-      // Calculate delay for log (0 for final attempt since no next retry)
-      const nextDelay = attempt < maxAttempts
-        ? this.calculateDelay(attempt + 1, policy)
-        : 0;
+  /**
+   * Status for an event with nothing left to run in this dispatch and nothing dead: `parked` while a
+   * delivery waits on an open circuit, `pending` if one parked by this dispatch was released while it ran.
+   */
+  private settledStatus(eventId: string, parkedHere: string[]): 'done' | 'parked' | 'pending' {
+    const rows = this.storeOp(() => this.store.getDeliveries(eventId)) ?? [];
+    if (rows.some((d) => d.status === 'parked')) return 'parked';
+    if (rows.some((d) => d.status === 'pending' && parkedHere.includes(d.subscription_id))) return 'pending';
+    return 'done';
+  }
 
-      // Emit structured log for this attempt (including final)
-      this.logFn({
-        level: 'warn',
-        event_id: event.id,
-        event_type: event.type,
-        subscription_id: result.failedSubscriptionId!,
-        attempt,
-        max_attempts: maxAttempts,
-        delay_ms: nextDelay,
-        error: result.error!,
-      });
+  /** Call an observer hook; like the circuit transition hook, a throwing observer never breaks dispatch. */
+  private notify<K extends keyof DispatchHooks>(name: K, info: Parameters<NonNullable<DispatchHooks[K]>>[0]): void {
+    const hook = this.hooks[name] as ((info: unknown) => void) | undefined;
+    if (!hook) return;
+    try {
+      hook(info);
+    } catch (err) {
+      console.error(JSON.stringify({
+        level: 'error',
+        message: `${name} hook failed`,
+        event_id: (info as { event: Event }).event.id,
+        error: err instanceof Error ? err.message : String(err),
+      }));
     }
+  }
+
+  private expire(event: Event): void {
+    this.ensureMetrics(event.type).expiredCount++;
+    this.storeOp(() => this.store.expireEvent(event.id));
+  }
+
+  /**
+   * Whether a delivery is still pending for a subscription bound in another process: it has a row in
+   * `subscriptions` but no handler here. Settling the event would drop it; only that process can run it.
+   */
+  private awaitsOtherProcess(eventId: string, subscriptions: Map<string, Subscription>): boolean {
+    return this.store.getDeliveries(eventId).some((d) => d.status === 'pending'
+      && !subscriptions.has(d.subscription_id)
+      && this.store.getSubscription(d.subscription_id) !== undefined);
+  }
 
-    // All attempts exhausted → DLQ
-    m.dlqCount++;
-    this.storeOp(() => this.store.moveEventToDlq(event.id, JSON.stringify(errorHistory)));
+  private hasDeadDelivery(eventId: string): boolean {
+    return this.store.getDeliveries(eventId).some((d) => d.status === 'dlq');
   }
 
   /** Safely execute a store operation; silently ignores closed-DB errors (abandoned dispatch after shutdown). */
-  private storeOp(fn: () => void): void {
-    try { fn(); } catch (err) {
-      if (err instanceof TypeError && (err as TypeError).message.includes('not open')) return;
+  private storeOp<T>(fn: () => T): T | undefined {
+    try { return fn(); } catch (err) {
+      if (err instanceof TypeError && (err as TypeError).message.includes('not open')) return undefined;
       throw err;
     }
   }
 
-  /** Run all matching handlers sequentially. Returns on first failure, with list of succeeded sub IDs. */
+  /**
+   * Run one attempt over `subscriptions`, in order. A sequential subscription runs alone; consecutive
+   * parallel ones run together, at most `handlerConcurrency` at a time, and every failure among them is
+   * reported. No further subscriptions start once a group has failed. `attemptOf` numbers each
+   * delivery's attempt for the attempts log and the handler context.
+   */
   private async runHandlers(
     event: Event,
     subscriptions: Subscription[],
-  ): Promise<{ success: boolean; error?: string; failedSubscriptionId?: string; succeededSubIds: string[] }> {
+    attemptOf: (subscriptionId: string) => number,
+    maxAttempts: number,
+  ): Promise<HandlerRunResult> {
     const succeededSubIds: string[] = [];
-    for (const sub of subscriptions) {
-      const timeoutMs = sub.timeoutMs ?? DEFAULT_HANDLER_TIMEOUT_MS;
-
-      try {
-        await this.withTimeout(sub.handler(event), timeoutMs);
-        succeededSubIds.push(sub.id);
-      } catch (err) {
-        const message = err instanceof Error ? err.message : String(err);
-        return { success: false, error: message, failedSubscriptionId: sub.id, succeededSubIds };
+    const failures: HandlerFailure[] = [];
+    let i = 0;
+    while (i < subscriptions.length && failures.length === 0) {
+      let end = i + 1;
+      if (this.executionOf(subscriptions[i]) === 'parallel') {
+        while (end < subscriptions.length && this.executionOf(subscriptions[end]) === 'parallel') end++;
       }
+      const group = subscriptions.slice(i, end);
+      i = end;
+
+      const outcomes: (HandlerFailure | null)[] = new Array(group.length).fill(null);
+      let next = 0;
+      const lane = async (): Promise<void> => {
+        while (next < group.length) {
+          const index = next++;
+          outcomes[index] = await this.runHandler(event, group[index], attemptOf(group[index].id), maxAttempts);
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(this.handlerConcurrency, group.length) }, lane));
+
+      group.forEach((sub, index) => {
+        const failure = outcomes[index];
+        if (failure === null) succeededSubIds.push(sub.id);
+        else failures.push(failure);
+      });
     }
-    return { success: true, succeededSubIds };
+    return { succeededSubIds, failures };
   }
 
-  /** Race handler promise against a timeout. Best-effort kill via Promise.race. */
-  private withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  /**
+   * Invoke one handler, wrapped in its middleware, under its timeout, recording it in the attempts log
+   * (opened before the call, so a crash mid-handler leaves a trace). Returns the failure, or null on success.
+   */
+  private async runHandler(
+    event: Event,
+    sub: Subscription,
+    attempt: number,
+    maxAttempts: number,
+  ): Promise<HandlerFailure | null> {
+    const timeoutMs = sub.timeoutMs ?? DEFAULT_HANDLER_TIMEOUT_MS;
+    const startedAt = Date.now();
+    const attemptId = this.storeOp(() =>
+      this.store.startAttempt(event.id, sub.id, attempt, new Date(startedAt).toISOString()));
+
+    const controller = new AbortController();
+    const context: HandlerContext = {
+      signal: controller.signal,
+      attempt,
+      maxAttempts,
+      subscriptionId: sub.id,
+      logger: this.handlerLogger(event, sub.id, attempt),
+      publish: (eventType, payload, metadata, options) =>
+        this.publishFollowUp(event, eventType, payload, metadata, options),
+    };
+
+    let error: unknown;
+    let failed = false;
+    this.running.add(controller);
+    try {
+      const invoke = composeHandler([...this.handlerMiddleware, ...sub.middleware ?? []], sub.handler);
+      await this.withTimeout(invoke(event, context), timeoutMs, controller);
+    } catch (err) {
+      error = err;
+      failed = true;
+    } finally {
+      this.running.delete(controller);
+    }
+
+    const message = failed ? (error instanceof Error ? error.message : String(error)) : null;
+    if (attemptId !== undefined) {
+      const finishedAt = Date.now();
+      this.storeOp(() => this.store.finishAttempt(attemptId, {
+        finishedAt: new Date(finishedAt).toISOString(),
+        durationMs: finishedAt - startedAt,
+        outcome: !failed ? 'success' : error instanceof HandlerTimeoutError ? 'timeout' : 'error',
+        errorMessage: message,
+        errorName: error instanceof Error ? error.name : null,
+        errorStack: error instanceof Error ? error.stack ?? null : null,
+      }));
+    }
+    return message === null ? null : { subscriptionId: sub.id, error: message, thrown: error };
+  }
+
+  private executionOf(sub: Subscription): HandlerExecution {
+    return sub.execution ?? this.handlerExecution;
+  }
+
+  /**
+   * Race handler promise against a timeout. On timeout the handler's signal is aborted, so a handler
+   * that honours it actually stops; one that ignores it is abandoned (best effort, as before).
+   */
+  private withTimeout<T>(promise: Promise<T>, timeoutMs: number, controller: AbortController): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
     return Promise.race([
       promise,
-      new Promise<never>((_, reject) =>
-        setTimeout(() => reject(new Error(`Handler timeout after ${timeoutMs}ms`)), timeoutMs),
-      ),
-    ]);
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          const err = new HandlerTimeoutError(timeoutMs);
+          controller.abort(err);
+          reject(err);
+        }, timeoutMs);
+      }),
+    ]).finally(() => clearTimeout(timer));
+  }
+
+  private handlerLogger(event: Event, subscriptionId: string, attempt: number): HandlerLogger {
+    const log = (level: HandlerLogEntry['level']) => (message: string, fields?: Record<string, unknown>) =>
+      this.handlerLogFn({
+        ...fields,
+        level,
+        message,
+        event_id: event.id,
+        event_type: event.type,
+        subscription_id: subscriptionId,
+        attempt,
+      });
+    return { debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error') };
+  }
+
+  /** context.publish: correlation follows the chain back to its first event; causation is this event. */
+  private publishFollowUp(
+    cause: Event,
+    eventType: string,
+    payload: unknown,
+    metadata?: Record<string, string>,
+    options?: PublishOptions,
+  ): Promise<string> {
+    if (!this.publishFn) {
+      return Promise.reject(new Error('context.publish is unavailable: Dispatcher was created without a publish function'));
+    }
+    return this.publishFn(eventType, payload, {
+      correlationId: cause.metadata?.correlationId ?? cause.id,
+      causationId: cause.id,
+      ...metadata,
+    }, options);
   }
 
   /**
@@ -277,7 +711,8 @@ export class Dispatcher {
    * Each sub's partial override merges with defaults first, then across subs
    * the most permissive value wins per field:
    *   maxRetries: max, baseDelayMs: min, maxDelayMs: max, backoffMultiplier: max.
-   * If no subs have overrides, returns DEFAULT_RETRY_POLICY.
+   * If no subs have overrides, returns DEFAULT_RETRY_POLICY. `isRetryable` and `errorRules` are not
+   * merged: a failure is classified by the subscription that threw it.
    */
   private mergeRetryPolicies(subscriptions: Subscription[]): RetryPolicy {
     const overrides = subscriptions.filter((s) => s.retry);
@@ -300,21 +735,70 @@ export class Dispatcher {
   }
 
   /**
-   * Calculate delay with exponential backoff and ±10% jitter (CHK-017).
-   * delay(attempt) = min(baseDelayMs * backoffMultiplier^(attempt - 2), maxDelayMs) ± 10%
-   * attempt is 1-indexed; delay is for wait before this attempt.
+   * Decide whether a failed delivery may be retried, and after how long. A PermanentError, or a veto
+   * from the subscription's `isRetryable`, rules it out; so does a matching `errorRules` entry with
+   * `retryable: false`, while one without it only overrides the backoff. A numeric `retryAfterMs` on
+   * the error replaces the computed backoff. Otherwise the delay comes from the rule's or the
+   * subscription's backoff strategy. `attempt` is the attempt the delay would precede.
+   * Throws whatever those user callbacks throw; dispatch() dead-letters the delivery then.
    */
-  private calculateDelay(attempt: number, policy: RetryPolicy): number {
-    // attempt 2 → exponent 0 → baseDelayMs
-    // attempt 3 → exponent 1 → baseDelayMs * multiplier
-    const exponent = attempt - 2;
-    const rawDelay = Math.min(
-      policy.baseDelayMs * Math.pow(policy.backoffMultiplier, exponent),
-      policy.maxDelayMs,
-    );
-
-    // Add ±10% jitter
-    const jitter = rawDelay * 0.1 * (2 * Math.random() - 1);
-    return Math.max(0, Math.round(rawDelay + jitter));
+  private retryDecision(
+    event: Event,
+    sub: Subscription,
+    error: unknown,
+    attempt: number,
+    policy: RetryPolicy,
+    previousDelayMs: number | undefined,
+  ): RetryDecision {
+    if (error instanceof PermanentError) return { retryable: false, delayMs: 0 };
+    if (sub.retry?.isRetryable && !sub.retry.isRetryable(error)) return { retryable: false, delayMs: 0 };
+
+    const rule = sub.retry?.errorRules?.find((r) => matchesError(r.match, error));
+    if (rule?.retryable === false) return { retryable: false, delayMs: 0 };
+
+    const retryAfterMs = retryAfterOf(error);
+    if (retryAfterMs !== undefined) return { retryable: true, delayMs: retryAfterMs };
+
+    const strategy = rule?.backoff ?? sub.retry?.backoff ?? 'exponential';
+    const delayPolicy: RetryPolicy = {
+      ...policy,
+      baseDelayMs: rule?.baseDelayMs ?? policy.baseDelayMs,
+      maxDelayMs: rule?.maxDelayMs ?? policy.maxDelayMs,
+      backoffMultiplier: rule?.backoffMultiplier ?? policy.backoffMultiplier,
+    };
+    return {
+      retryable: true,
+      delayMs: computeBackoff(strategy, delayPolicy, { attempt, error, event, previousDelayMs }, this.backoffStrategies),
+    };
+  }
+}
+
+/** Whether `event` has passed its expiresAt by `atMs`. */
+function isExpired(event: Event, atMs: number): boolean {
+  return event.expiresAt != null && event.expiresAt.getTime() <= atMs;
+}
+
+/** An Error subclass matches by instanceof; any other function is a predicate. */
+function matchesError(match: ErrorMatcher, error: unknown): boolean {
+  if (match === Error || match.prototype instanceof Error) {
+    return error instanceof (match as abstract new (...args: never[]) => Error);
+  }
+  return (match as (error: unknown) => boolean)(error);
+}
+
+/** A server-style `retryAfterMs` hint carried on the thrown error, if it is a usable number. */
+function retryAfterOf(error: unknown): number | undefined {
+  const value = (error as { retryAfterMs?: unknown } | null | undefined)?.retryAfterMs;
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+/** Parse a persisted error history (JSON array); anything else counts as no history. */
+function parseErrorHistory(lastError: string | null | undefined): string[] {
+  if (!lastError) return [];
+  try {
+    const parsed: unknown = JSON.parse(lastError);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
   }
 }
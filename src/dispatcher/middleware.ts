@@ -0,0 +1,19 @@
+import type { EventHandler, HandlerMiddleware } from '../types/index.js';
+
+/**
+ * Wrap `handler` in `middleware`, first entry outermost. Each middleware gets a `next` that runs the
+ * rest of the chain; calling it more than once rejects, so a handler runs at most once per attempt.
+ */
+export function composeHandler(middleware: readonly HandlerMiddleware[], handler: EventHandler): EventHandler {
+  if (middleware.length === 0) return handler;
+  return (event, context) => {
+    let called = -1;
+    const step = async (index: number): Promise<void> => {
+      if (index <= called) throw new Error('next() called multiple times');
+      called = index;
+      if (index === middleware.length) return handler(event, context);
+      return middleware[index](event, context, () => step(index + 1));
+    };
+    return step(0);
+  };
+}
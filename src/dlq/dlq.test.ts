@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { DLQInspector } from './index.js';
 import { SQLiteStore } from '../store/index.js';
+import { EventBus } from '../bus/index.js';
 import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
@@ -35,6 +36,17 @@ function insertDlqEvent(
   return id;
 }
 
+/** Insert an event with one delivered and one dead-lettered subscription */
+function insertDlqDelivery(store: SQLiteStore): { eventId: string; okSub: string; deadSub: string } {
+  const eventId = insertDlqEvent(store);
+  const okSub = crypto.randomUUID();
+  const deadSub = crypto.randomUUID();
+  store.ensureDeliveries(eventId, [okSub, deadSub]);
+  store.markDeliveryDone(eventId, okSub);
+  store.moveDeliveryToDlq(eventId, deadSub, 3, '["e1","e2","e3"]');
+  return { eventId, okSub, deadSub };
+}
+
 describe('DLQInspector', () => {
   let store: SQLiteStore;
   let dbPath: string;
@@ -176,6 +188,29 @@ describe('DLQInspector', () => {
       expect(row.dlq_at).toBeNull();
     });
 
+    it('re-queues from now, keeping its priority, instead of aging from the original due time', () => {
+      const id = insertDlqEvent(store, { createdAt: '2024-01-01T00:00:00.000Z' });
+      const before = new Date().toISOString();
+
+      dlq.retry(id);
+      const row = store.getEvent(id)!;
+      expect(row.available_at >= before).toBe(true);
+      expect(row.priority).toBe(0);
+    });
+
+    it('refuses to re-enqueue an expired event', () => {
+      const id = crypto.randomUUID();
+      const past = new Date(Date.now() - 60_000).toISOString();
+      store.insertEvent({
+        id, type: 'quote.issued', payload: {}, status: 'pending', retryCount: 0,
+        createdAt: past, updatedAt: past, expiresAt: past,
+      });
+      store.moveEventToDlq(id, '["timeout"]');
+
+      expect(() => dlq.retry(id)).toThrow(/expired/);
+      expect(store.getEvent(id)!.status).toBe('dlq');
+    });
+
     it('throws on non-existent event ID', () => {
       expect(() => dlq.retry('non-existent-id')).toThrow();
     });
@@ -203,6 +238,39 @@ describe('DLQInspector', () => {
     });
   });
 
+  describe('timeline()', () => {
+    it('returns the event, its deliveries and every attempt in start order', () => {
+      const { eventId, okSub, deadSub } = insertDlqDelivery(store);
+      const t0 = '2024-01-01T00:00:00.000Z';
+      const first = store.startAttempt(eventId, deadSub, 1, t0);
+      store.finishAttempt(first, {
+        finishedAt: t0, durationMs: 0, outcome: 'error', errorMessage: 'e1', errorName: 'Error', errorStack: 'Error: e1',
+      });
+      const second = store.startAttempt(eventId, okSub, 1, t0);
+      store.finishAttempt(second, { finishedAt: t0, durationMs: 3, outcome: 'success' });
+
+      const timeline = dlq.timeline(eventId);
+      expect(timeline.event.id).toBe(eventId);
+      expect(timeline.deliveries).toHaveLength(2);
+      expect(timeline.attempts.map((a) => [a.subscription_id, a.outcome, a.error_message])).toEqual([
+        [deadSub, 'error', 'e1'],
+        [okSub, 'success', null],
+      ]);
+    });
+
+    it('throws on non-existent event ID', () => {
+      expect(() => dlq.timeline('missing')).toThrow(/not found/);
+    });
+
+    it('purge() drops the attempts of purged events', () => {
+      const { eventId, deadSub } = insertDlqDelivery(store);
+      store.startAttempt(eventId, deadSub, 1, new Date().toISOString());
+
+      dlq.purge(0);
+      expect(store.getAttempts(eventId)).toEqual([]);
+    });
+  });
+
   // --- CHK-011: DLQInspector.purge() ---
 
   describe('purge() (CHK-011)', () => {
@@ -270,4 +338,93 @@ describe('DLQInspector', () => {
       expect(deleted).toBe(2);
     });
   });
+
+  describe('deliveries', () => {
+    it('listDeliveries() returns only dead-lettered deliveries', () => {
+      const { eventId, deadSub } = insertDlqDelivery(store);
+      const result = dlq.listDeliveries();
+      expect(result.total).toBe(1);
+      expect(result.deliveries).toHaveLength(1);
+      expect(result.deliveries[0].event_id).toBe(eventId);
+      expect(result.deliveries[0].subscription_id).toBe(deadSub);
+      expect(result.deliveries[0].retry_count).toBe(3);
+      expect(JSON.parse(result.deliveries[0].last_error!)).toEqual(['e1', 'e2', 'e3']);
+    });
+
+    it('listDeliveries() respects limit and offset', () => {
+      for (let i = 0; i < 3; i++) insertDlqDelivery(store);
+      const page = dlq.listDeliveries({ limit: 2, offset: 2 });
+      expect(page.deliveries).toHaveLength(1);
+      expect(page.total).toBe(3);
+    });
+
+    it('retryDelivery() resets that delivery and re-enqueues the event, leaving done deliveries alone', () => {
+      const { eventId, okSub, deadSub } = insertDlqDelivery(store);
+      dlq.retryDelivery(eventId, deadSub);
+
+      const row = store.getDelivery(eventId, deadSub)!;
+      expect(row.status).toBe('pending');
+      expect(row.retry_count).toBe(0);
+      expect(row.last_error).toBeNull();
+      expect(row.dlq_at).toBeNull();
+      expect(store.getDelivery(eventId, okSub)!.status).toBe('done');
+      expect(store.getEvent(eventId)!.status).toBe('pending');
+      expect(dlq.listDeliveries().total).toBe(0);
+    });
+
+    it('retryDelivery() throws for unknown or non-DLQ deliveries', () => {
+      const { eventId, okSub } = insertDlqDelivery(store);
+      expect(() => dlq.retryDelivery(eventId, 'no-such-sub')).toThrow('Delivery not found');
+      expect(() => dlq.retryDelivery(eventId, okSub)).toThrow('not in DLQ');
+    });
+
+    it('retry() resets dead deliveries of the event but not successful ones', () => {
+      const { eventId, okSub, deadSub } = insertDlqDelivery(store);
+      dlq.retry(eventId);
+      expect(store.getDelivery(eventId, deadSub)!.status).toBe('pending');
+      expect(store.getDelivery(eventId, okSub)!.status).toBe('done');
+    });
+
+    it('purge() deletes the deliveries of purged events', () => {
+      const { eventId } = insertDlqDelivery(store);
+      expect(dlq.purge(0)).toBe(1);
+      expect(store.getDeliveries(eventId)).toEqual([]);
+    });
+  });
+});
+
+describe('DLQInspector — retry() through an EventBus', () => {
+  let dbPath: string;
+
+  beforeEach(() => {
+    dbPath = createTmpDbPath();
+  });
+
+  afterEach(() => {
+    cleanupDb(dbPath);
+  });
+
+  it('re-runs only the dead deliveries, not subscriptions bound since the event was dead-lettered', async () => {
+    const bus = new EventBus(dbPath, { logFn: () => {} });
+    let failing = true;
+    let aCalls = 0;
+    let lateCalls = 0;
+    bus.subscribe('order.*', async () => {
+      aCalls++;
+      if (failing) throw new Error('down');
+    }, { retry: { maxRetries: 0 } });
+    const id = await bus.publish('order.created', {});
+    expect(bus.getStore().getEvent(id)!.status).toBe('dlq');
+
+    const late = bus.subscribe('order.*', async () => { lateCalls++; });
+    failing = false;
+    new DLQInspector(bus.getStore()).retry(id);
+    await bus.start(); // dispatches the re-enqueued event
+
+    expect(bus.getStore().getEvent(id)!.status).toBe('done');
+    expect(aCalls).toBe(2);
+    expect(lateCalls).toBe(0);
+    expect(bus.getStore().getDelivery(id, late)).toBeUndefined();
+    await bus.shutdown();
+  });
 });
@@ -1,4 +1,4 @@
-import { SQLiteStore, type EventRow } from '../store/index.js';
+import { SQLiteStore, type AttemptRow, type DeliveryRow, type EventRow } from '../store/index.js';
 
 export interface DlqListOptions {
   limit?: number;   // default: 100
@@ -10,8 +10,20 @@ export interface DlqListResult {
   total: number;
 }
 
+export interface DlqDeliveryListResult {
+  deliveries: DeliveryRow[];
+  total: number;
+}
+
+export interface EventTimeline {
+  event: EventRow;
+  deliveries: DeliveryRow[];
+  attempts: AttemptRow[];   // every handler invocation, in the order it started
+}
+
 /**
- * DLQInspector: list, retry, and purge dead-lettered events.
+ * DLQInspector: list, retry, and purge dead-lettered events and their individual deliveries, and
+ * reconstruct how any event got where it is from its attempts log.
  * Depends only on SQLiteStore (AD-5). No runtime dependency on EventBus or Dispatcher.
  */
 export class DLQInspector {
@@ -26,7 +38,50 @@ export class DLQInspector {
     return { events, total };
   }
 
-  /** CHK-010: Re-enqueue a single dead event. Full reset: status→pending, retry_count→0, last_error→NULL, dlq_at→NULL. */
+  /** List dead-lettered deliveries (one per failed subscription) with offset/limit pagination, most recent first. */
+  listDeliveries(options?: DlqListOptions): DlqDeliveryListResult {
+    const limit = options?.limit ?? 100;
+    const offset = options?.offset ?? 0;
+    const deliveries = this.store.getDlqDeliveries(offset, limit);
+    const total = this.store.countDlqDeliveries();
+    return { deliveries, total };
+  }
+
+  /** Full history of one event (any status): its row, per-subscription deliveries and every attempt. */
+  timeline(eventId: string): EventTimeline {
+    const event = this.store.getEvent(eventId);
+    if (!event) {
+      throw new Error(`Event not found: ${eventId}`);
+    }
+    return {
+      event,
+      deliveries: this.store.getDeliveries(eventId),
+      attempts: this.store.getAttempts(eventId),
+    };
+  }
+
+  /**
+   * Re-enqueue a single dead delivery. Only that subscription is re-run; deliveries of the same
+   * event that succeeded are not. The event returns to pending so the dispatcher picks it up.
+   * Throws if the event has expired.
+   */
+  retryDelivery(eventId: string, subscriptionId: string): void {
+    const row = this.store.getDelivery(eventId, subscriptionId);
+    if (!row) {
+      throw new Error(`Delivery not found: ${eventId}/${subscriptionId}`);
+    }
+    if (row.status !== 'dlq') {
+      throw new Error(`Delivery ${eventId}/${subscriptionId} is not in DLQ (status: ${row.status})`);
+    }
+    const event = this.store.getEvent(eventId);
+    if (event) assertNotExpired(event);
+    this.store.resetDlqDelivery(eventId, subscriptionId);
+  }
+
+  /**
+   * CHK-010: Re-enqueue a single dead event. Full reset: status→pending, retry_count→0, last_error→NULL, dlq_at→NULL.
+   * Its dead deliveries are reset too; deliveries that succeeded are not re-run. Throws if the event has expired.
+   */
   retry(eventId: string): void {
     const row = this.store.getEvent(eventId);
     if (!row) {
@@ -35,7 +90,8 @@ export class DLQInspector {
     if (row.status !== 'dlq') {
       throw new Error(`Event ${eventId} is not in DLQ (status: ${row.status})`);
     }
-    this.store.resetDlqEvent(eventId);
+    assertNotExpired(row);
+    this.store.resetDlqEventDeliveries(eventId);
   }
 
   /** CHK-011: Delete DLQ events older than N days (inclusive: created_at <= cutoff). Returns count deleted. */
@@ -44,3 +100,10 @@ export class DLQInspector {
     return this.store.purgeDlqEvents(cutoff);
   }
 }
+
+/** Re-enqueuing an event past its expiresAt would only expire it again — refuse instead. */
+function assertNotExpired(row: EventRow): void {
+  if (row.expires_at != null && Date.parse(row.expires_at) <= Date.now()) {
+    throw new Error(`Event ${row.id} expired at ${row.expires_at}; not re-enqueued`);
+  }
+}
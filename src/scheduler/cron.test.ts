@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { parseCron, nextCronTime } from './cron.js';
+
+function next(expr: string, after: string): string {
+  return nextCronTime(parseCron(expr), new Date(after)).toISOString();
+}
+
+describe('parseCron()', () => {
+  it('expands wildcards, ranges, lists and steps', () => {
+    const cron = parseCron('*/15 9-11 1,15 * 1-5');
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toEqual([9, 10, 11]);
+    expect([...cron.daysOfMonth]).toEqual([1, 15]);
+    expect(cron.months.size).toBe(12);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('treats day-of-week 7 as Sunday', () => {
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow('expected 5 fields');
+    expect(() => parseCron('60 * * * *')).toThrow();
+    expect(() => parseCron('*/0 * * * *')).toThrow();
+    expect(() => parseCron('5-1 * * * *')).toThrow();
+    expect(() => parseCron('a * * * *')).toThrow();
+  });
+});
+
+describe('nextCronTime()', () => {
+  it('returns the next matching minute strictly after the given time', () => {
+    expect(next('*/15 * * * *', '2024-03-10T10:07:30.000Z')).toBe('2024-03-10T10:15:00.000Z');
+    expect(next('*/15 * * * *', '2024-03-10T10:15:00.000Z')).toBe('2024-03-10T10:30:00.000Z');
+  });
+
+  it('rolls over hours, days, months and years', () => {
+    expect(next('0 9 * * *', '2024-03-10T10:00:00.000Z')).toBe('2024-03-11T09:00:00.000Z');
+    expect(next('0 0 1 * *', '2024-03-10T10:00:00.000Z')).toBe('2024-04-01T00:00:00.000Z');
+    expect(next('30 6 1 1 *', '2024-03-10T10:00:00.000Z')).toBe('2025-01-01T06:30:00.000Z');
+  });
+
+  it('matches day-of-month OR day-of-week when both are restricted', () => {
+    // 2024-03-10 is a Sunday; next Monday is the 11th, next 15th is Friday
+    expect(next('0 0 15 * 1', '2024-03-10T12:00:00.000Z')).toBe('2024-03-11T00:00:00.000Z');
+    expect(next('0 0 15 * 1', '2024-03-11T12:00:00.000Z')).toBe('2024-03-15T00:00:00.000Z');
+  });
+
+  it('finds leap days', () => {
+    expect(next('0 0 29 2 *', '2024-03-01T00:00:00.000Z')).toBe('2028-02-29T00:00:00.000Z');
+  });
+
+  it('throws for expressions that never match', () => {
+    expect(() => next('0 0 30 2 *', '2024-01-01T00:00:00.000Z')).toThrow('no occurrence');
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Minimal 5-field cron parser: `minute hour day-of-month month day-of-week`.
+ * Supports `*`, numbers, ranges (`1-5`), lists (`1,15`) and steps (`*\/10`, `0-30/5`).
+ * Day-of-week is 0-7 (0 and 7 are Sunday). Expressions are evaluated in UTC.
+ * As in classic cron, when both day fields are restricted a day matching either one fires.
+ */
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7],  // day of week
+];
+
+// Upper bound on the search — an expression like "0 0 30 2 *" never matches
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+export function parseCron(expr: string): CronExpression {
+  const fields = expr.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expr}": expected 5 fields, got ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(field, FIELD_RANGES[i][0], FIELD_RANGES[i][1], expr),
+  );
+  // Normalize Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: fields[2] !== '*',
+    dowRestricted: fields[4] !== '*',
+  };
+}
+
+/** First occurrence strictly after `after` (second precision dropped). */
+export function nextCronTime(cron: CronExpression, after: Date): Date {
+  const d = new Date(after.getTime());
+  d.setUTCSeconds(0, 0);
+  d.setUTCMinutes(d.getUTCMinutes() + 1);
+  const limit = after.getTime() + MAX_SEARCH_MS;
+
+  while (d.getTime() <= limit) {
+    if (!cron.months.has(d.getUTCMonth() + 1)) {
+      d.setUTCMonth(d.getUTCMonth() + 1, 1);
+      d.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!dayMatches(cron, d)) {
+      d.setUTCDate(d.getUTCDate() + 1);
+      d.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(d.getUTCHours())) {
+      d.setUTCHours(d.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(d.getUTCMinutes())) {
+      d.setUTCMinutes(d.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return d;
+  }
+
+  throw new Error('Cron expression has no occurrence in the next 5 years');
+}
+
+function dayMatches(cron: CronExpression, d: Date): boolean {
+  const dom = cron.daysOfMonth.has(d.getUTCDate());
+  const dow = cron.daysOfWeek.has(d.getUTCDay());
+  if (cron.domRestricted && cron.dowRestricted) return dom || dow;
+  return dom && dow;
+}
+
+function parseField(field: string, min: number, max: number, expr: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron expression "${expr}": bad step in "${part}"`);
+    }
+
+    let from: number;
+    let to: number;
+    if (rangePart === '*') {
+      from = min;
+      to = max;
+    } else if (rangePart.includes('-')) {
+      const [a, b] = rangePart.split('-');
+      from = Number(a);
+      to = Number(b);
+    } else {
+      from = Number(rangePart);
+      // "5/15" means "from 5 to the end, every 15"
+      to = stepPart === undefined ? from : max;
+    }
+
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < min || to > max || from > to) {
+      throw new Error(`Invalid cron expression "${expr}": "${part}" is outside ${min}-${max}`);
+    }
+    for (let v = from; v <= to; v += step) values.add(v);
+  }
+
+  return values;
+}
@@ -0,0 +1,196 @@
+import { randomUUID } from 'node:crypto';
+import { SQLiteStore, toSchedule, type ScheduleRow } from '../store/index.js';
+import type { Schedule, ScheduleOptions } from '../types/index.js';
+import { parseCron, nextCronTime } from './cron.js';
+
+export const DEFAULT_SCHEDULER_POLL_INTERVAL_MS = 1000;
+export const DEFAULT_MISFIRE_GRACE_MS = 60_000;
+
+export interface SchedulerOptions {
+  /** Max time between checks for due schedules (default: 1s); separate from the worker's `pollIntervalMs` */
+  schedulePollIntervalMs?: number;
+  /** A tick fired later than this after its due time counts as missed (default: 60s) */
+  misfireGraceMs?: number;
+}
+
+/**
+ * Scheduler: recurring schedules persisted in the `schedules` table.
+ * On each due tick it enqueues one event through the `enqueue` callback, inside the same
+ * transaction that advances `next_run_at` with a compare-and-swap — a tick is fired by at most
+ * one process even when several open the same database file.
+ */
+export class Scheduler {
+  private store: SQLiteStore;
+  private enqueue: (schedule: Schedule, scheduledFor: Date) => void;
+  private pollIntervalMs: number;
+  private misfireGraceMs: number;
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    store: SQLiteStore,
+    enqueue: (schedule: Schedule, scheduledFor: Date) => void,
+    options?: SchedulerOptions,
+  ) {
+    this.store = store;
+    this.enqueue = enqueue;
+    this.pollIntervalMs = options?.schedulePollIntervalMs ?? DEFAULT_SCHEDULER_POLL_INTERVAL_MS;
+    this.misfireGraceMs = options?.misfireGraceMs ?? DEFAULT_MISFIRE_GRACE_MS;
+  }
+
+  /**
+   * Register (or update, by name) a recurring schedule. Returns the schedule ID.
+   * Re-registering with the same timing keeps the persisted next_run_at, so ticks missed
+   * while the process was down are still detected after a restart.
+   */
+  register(options: ScheduleOptions): string {
+    if ((options.cron == null) === (options.intervalMs == null)) {
+      throw new TypeError('Schedule needs exactly one of cron or intervalMs');
+    }
+    if (options.intervalMs != null && !(options.intervalMs > 0)) {
+      throw new TypeError('Schedule intervalMs must be positive');
+    }
+    if (options.cron != null) parseCron(options.cron); // validate up front
+
+    const now = new Date();
+    const existing = this.store.getScheduleByName(options.name);
+    const sameTiming = existing != null
+      && existing.cron === (options.cron ?? null)
+      && existing.interval_ms === (options.intervalMs ?? null);
+    const id = existing?.id ?? randomUUID();
+
+    this.store.upsertSchedule({
+      id,
+      name: options.name,
+      eventType: options.eventType,
+      payload: options.payload,
+      metadata: options.metadata ?? null,
+      cron: options.cron ?? null,
+      intervalMs: options.intervalMs ?? null,
+      missedPolicy: options.missedPolicy ?? 'fire-once',
+      nextRunAt: sameTiming ? existing.next_run_at : nextRunAfter(options, now, now).toISOString(),
+      createdAt: existing?.created_at ?? now.toISOString(),
+    });
+
+    this.wake();
+    return id;
+  }
+
+  list(): Schedule[] {
+    return this.store.getAllSchedules().map(toSchedule);
+  }
+
+  get(id: string): Schedule | undefined {
+    const row = this.store.getSchedule(id);
+    return row ? toSchedule(row) : undefined;
+  }
+
+  pause(id: string): void {
+    this.requireRow(id);
+    this.store.setSchedulePaused(id, true);
+  }
+
+  /** Resume from now: ticks that fell inside the pause are not treated as missed. */
+  resume(id: string): void {
+    const row = this.requireRow(id);
+    if (row.paused === 0) return;
+    const now = new Date();
+    this.store.setSchedulePaused(id, false, nextRunAfter(rowTiming(row), now, now).toISOString());
+    this.wake();
+  }
+
+  remove(id: string): void {
+    this.store.deleteSchedule(id);
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.arm(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Fire every due schedule once. A schedule that missed ticks (several occurrences due, or
+   * the due one is older than misfireGraceMs) fires a single event under `fire-once` and none
+   * under `skip`; either way next_run_at jumps to the first occurrence after now.
+   * Returns the number of events enqueued.
+   */
+  tick(now = new Date()): number {
+    let fired = 0;
+
+    for (const row of this.store.getDueSchedules(now.toISOString())) {
+      const timing = rowTiming(row);
+      const due = new Date(row.next_run_at);
+      const missed = nextRunAfter(timing, due, due) <= now
+        || now.getTime() - due.getTime() > this.misfireGraceMs;
+      const fire = !missed || row.missed_policy === 'fire-once';
+      const next = nextRunAfter(timing, now, due);
+
+      this.store.transaction(() => {
+        const won = this.store.advanceSchedule(
+          row.id,
+          row.next_run_at,
+          next.toISOString(),
+          fire ? now.toISOString() : null,
+        );
+        if (!won || !fire) return; // another process took this tick, or it is skipped
+        this.enqueue(toSchedule(row), due);
+        fired++;
+      });
+    }
+
+    return fired;
+  }
+
+  private wake(): void {
+    if (this.running) this.arm(0);
+  }
+
+  private arm(ms: number): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.onTimer(), ms);
+    this.timer.unref();
+  }
+
+  private onTimer(): void {
+    this.timer = null;
+    if (!this.running) return;
+
+    this.tick();
+
+    let delay = this.pollIntervalMs;
+    const next = this.store.getNextScheduleRunAt();
+    if (next) delay = Math.min(delay, Math.max(0, Date.parse(next) - Date.now()));
+    this.arm(delay);
+  }
+
+  private requireRow(id: string): ScheduleRow {
+    const row = this.store.getSchedule(id);
+    if (!row) throw new Error(`Schedule not found: ${id}`);
+    return row;
+  }
+}
+
+type Timing = Pick<ScheduleOptions, 'cron' | 'intervalMs'>;
+
+function rowTiming(row: ScheduleRow): Timing {
+  return { cron: row.cron ?? undefined, intervalMs: row.interval_ms ?? undefined };
+}
+
+/** First occurrence strictly after `after`. Interval schedules stay aligned to `anchor`. */
+function nextRunAfter(timing: Timing, after: Date, anchor: Date): Date {
+  if (timing.cron != null) return nextCronTime(parseCron(timing.cron), after);
+
+  const interval = timing.intervalMs!;
+  const elapsed = after.getTime() - anchor.getTime();
+  const periods = Math.floor(elapsed / interval) + 1;
+  return new Date(anchor.getTime() + periods * interval);
+}
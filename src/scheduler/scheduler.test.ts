@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Scheduler } from './index.js';
+import { SQLiteStore } from '../store/index.js';
+import type { Schedule } from '../types/index.js';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+function createTmpDbPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scheduler-test-'));
+  return path.join(dir, 'test.db');
+}
+
+function cleanupDb(dbPath: string): void {
+  try { fs.rmSync(path.dirname(dbPath), { recursive: true, force: true }); } catch { /* */ }
+}
+
+interface Fired { name: string; scheduledFor: string }
+
+describe('Scheduler', () => {
+  let store: SQLiteStore;
+  let dbPath: string;
+  let fired: Fired[];
+  let scheduler: Scheduler;
+
+  function makeScheduler(s: SQLiteStore, sink: Fired[]): Scheduler {
+    return new Scheduler(s, (schedule: Schedule, scheduledFor: Date) => {
+      sink.push({ name: schedule.name, scheduledFor: scheduledFor.toISOString() });
+    });
+  }
+
+  beforeEach(() => {
+    dbPath = createTmpDbPath();
+    store = new SQLiteStore(dbPath);
+    fired = [];
+    scheduler = makeScheduler(store, fired);
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    store?.close();
+    cleanupDb(dbPath);
+  });
+
+  function backdate(id: string, nextRunAt: Date): void {
+    store.rawExec('UPDATE schedules SET next_run_at = ? WHERE id = ?', nextRunAt.toISOString(), id);
+  }
+
+  describe('register()', () => {
+    it('persists the schedule with its first run in the future', () => {
+      const before = Date.now();
+      const id = scheduler.register({ name: 'heartbeat', eventType: 'system.tick', intervalMs: 60_000, payload: { v: 1 } });
+
+      const schedule = scheduler.get(id)!;
+      expect(schedule.name).toBe('heartbeat');
+      expect(schedule.eventType).toBe('system.tick');
+      expect(schedule.payload).toEqual({ v: 1 });
+      expect(schedule.missedPolicy).toBe('fire-once');
+      expect(schedule.paused).toBe(false);
+      expect(schedule.nextRunAt.getTime()).toBeGreaterThanOrEqual(before + 60_000);
+    });
+
+    it('requires exactly one of cron or intervalMs', () => {
+      expect(() => scheduler.register({ name: 'a', eventType: 't' })).toThrow(TypeError);
+      expect(() => scheduler.register({ name: 'a', eventType: 't', cron: '* * * * *', intervalMs: 1 })).toThrow(TypeError);
+      expect(() => scheduler.register({ name: 'a', eventType: 't', intervalMs: 0 })).toThrow(TypeError);
+      expect(() => scheduler.register({ name: 'a', eventType: 't', cron: 'bogus' })).toThrow();
+    });
+
+    it('re-registering the same name updates in place and keeps the pending run', () => {
+      const id = scheduler.register({ name: 'report', eventType: 'report.v1', intervalMs: 60_000 });
+      const pastRun = new Date(Date.now() - 1000);
+      backdate(id, pastRun);
+
+      const again = scheduler.register({ name: 'report', eventType: 'report.v2', intervalMs: 60_000 });
+      expect(again).toBe(id);
+      expect(scheduler.list()).toHaveLength(1);
+      expect(scheduler.get(id)!.eventType).toBe('report.v2');
+      expect(scheduler.get(id)!.nextRunAt.toISOString()).toBe(pastRun.toISOString());
+    });
+  });
+
+  describe('tick()', () => {
+    it('fires a due schedule once and advances next_run_at', () => {
+      const id = scheduler.register({ name: 'tick', eventType: 't', intervalMs: 60_000 });
+      const due = new Date(Date.now() - 500);
+      backdate(id, due);
+
+      expect(scheduler.tick()).toBe(1);
+      expect(fired).toEqual([{ name: 'tick', scheduledFor: due.toISOString() }]);
+      expect(scheduler.get(id)!.nextRunAt.getTime()).toBe(due.getTime() + 60_000);
+      expect(scheduler.get(id)!.lastRunAt).toBeDefined();
+
+      // Not due again until the next interval
+      expect(scheduler.tick()).toBe(0);
+    });
+
+    it('fires missed ticks once under the fire-once policy', () => {
+      const id = scheduler.register({ name: 'catch-up', eventType: 't', intervalMs: 1000 });
+      backdate(id, new Date(Date.now() - 10_500)); // ~11 ticks missed
+
+      expect(scheduler.tick()).toBe(1);
+      expect(fired).toHaveLength(1);
+      expect(scheduler.get(id)!.nextRunAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('skips missed ticks under the skip policy', () => {
+      const id = scheduler.register({ name: 'skipper', eventType: 't', intervalMs: 1000, missedPolicy: 'skip' });
+      backdate(id, new Date(Date.now() - 10_500));
+
+      expect(scheduler.tick()).toBe(0);
+      expect(fired).toEqual([]);
+      expect(scheduler.get(id)!.nextRunAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('treats a single tick older than the misfire grace as missed', () => {
+      const id = scheduler.register({ name: 'hourly', eventType: 't', intervalMs: 3_600_000, missedPolicy: 'skip' });
+      backdate(id, new Date(Date.now() - 5 * 60_000)); // due 5 minutes ago, grace is 60s
+
+      expect(scheduler.tick()).toBe(0);
+    });
+
+    it('does not fire paused schedules; resume restarts from now', () => {
+      const id = scheduler.register({ name: 'p', eventType: 't', intervalMs: 1000 });
+      backdate(id, new Date(Date.now() - 10_000));
+      scheduler.pause(id);
+
+      expect(scheduler.tick()).toBe(0);
+      expect(scheduler.get(id)!.paused).toBe(true);
+
+      scheduler.resume(id);
+      expect(scheduler.get(id)!.paused).toBe(false);
+      expect(scheduler.get(id)!.nextRunAt.getTime()).toBeGreaterThan(Date.now());
+      expect(scheduler.tick()).toBe(0);
+    });
+
+    it('never double-fires a tick across processes sharing the database file', () => {
+      const id = scheduler.register({ name: 'shared', eventType: 't', intervalMs: 60_000 });
+      backdate(id, new Date(Date.now() - 100));
+
+      const otherStore = new SQLiteStore(dbPath);
+      const otherFired: Fired[] = [];
+      const other = makeScheduler(otherStore, otherFired);
+      const now = new Date();
+
+      // Both read the same due row; only the compare-and-swap winner enqueues
+      const a = scheduler.tick(now);
+      const b = other.tick(now);
+      otherStore.close();
+
+      expect(a + b).toBe(1);
+      expect(fired.length + otherFired.length).toBe(1);
+    });
+
+    it('advanceSchedule() is a compare-and-swap on next_run_at', () => {
+      const id = scheduler.register({ name: 'cas', eventType: 't', intervalMs: 60_000 });
+      const expected = store.getSchedule(id)!.next_run_at;
+      const next = new Date(Date.parse(expected) + 60_000).toISOString();
+
+      // Two processes that read the same row race to advance it — exactly one wins
+      expect(store.advanceSchedule(id, expected, next, null)).toBe(true);
+      expect(store.advanceSchedule(id, expected, next, null)).toBe(false);
+    });
+  });
+
+  it('remove() deletes the schedule', () => {
+    const id = scheduler.register({ name: 'gone', eventType: 't', cron: '0 * * * *' });
+    scheduler.remove(id);
+    expect(scheduler.list()).toEqual([]);
+  });
+});
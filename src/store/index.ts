@@ -1,5 +1,6 @@
 import Database from 'better-sqlite3';
 import type { Statement } from 'better-sqlite3';
+import type { Event, EventStatus, MissedTickPolicy, Schedule } from '../types/index.js';
 
 // Raw row types matching the DB schema
 export interface EventRow {
@@ -13,12 +14,174 @@ export interface EventRow {
   created_at: string;
   updated_at: string;
   dlq_at: string | null;
+  available_at: string;
+  seq: number;               // insertion sequence, strictly increasing and never reused
+  locked_by: string | null;  // consumer holding the processing lease
+  lease_expires_at: string | null;
+  ordering_key: string | null; // events sharing a key are dispatched one at a time, in seq order
+  priority: number;          // higher is claimed first
+  expires_at: string | null; // past this instant the event is not dispatched or retried
+}
+
+/** Error recorded for an attempt whose process died (or stalled past its lease) mid-dispatch. */
+export const INTERRUPTED_ATTEMPT_ERROR = 'Attempt interrupted: lease expired before dispatch finished';
+
+/**
+ * SQL expression appending the bound parameter to a `last_error` JSON array. A legacy plain-string
+ * value is kept as the first entry.
+ */
+const APPEND_ERROR_SQL = `json_insert(
+  CASE WHEN last_error IS NULL THEN '[]'
+       WHEN json_valid(last_error) THEN CASE json_type(last_error) WHEN 'array' THEN last_error ELSE json_array(last_error) END
+       ELSE json_array(last_error) END,
+  '$[#]', ?)`;
+
+/**
+ * SQL condition (over a row aliased `e`) that holds while an earlier event with the same ordering key
+ * is unfinished — pending (possibly awaiting a retry or its delivery time), processing, or parked behind
+ * an open circuit. Such rows must not be claimed. A dead-lettered event releases its key.
+ */
+const ORDERING_BLOCKED_SQL = `e.ordering_key IS NOT NULL AND EXISTS (
+  SELECT 1 FROM events prior
+  WHERE prior.ordering_key = e.ordering_key AND prior.seq < e.seq AND prior.status IN ('pending', 'processing', 'parked'))`;
+
+/**
+ * SQL condition (over a row aliased `e`) that holds while every delivery `e` still has pending belongs to a
+ * subscription bound in another process: the subscription has a row, but its ID is not in the JSON array
+ * bound here. Only that process can run them, so its worker is left to claim the row. Deliveries of deleted
+ * subscriptions do not hold a row back, so it still settles. Binds (subscriptionIds JSON).
+ */
+const HELD_ELSEWHERE_SQL = `EXISTS (SELECT 1 FROM deliveries d WHERE d.event_id = e.id AND d.status = 'pending')
+  AND NOT EXISTS (
+    SELECT 1 FROM deliveries d WHERE d.event_id = e.id AND d.status = 'pending' AND (
+      d.subscription_id IN (SELECT value FROM json_each(?))
+      OR NOT EXISTS (SELECT 1 FROM subscriptions s WHERE s.id = d.subscription_id)))`;
+
+/**
+ * SQL for the priority a pending row is claimed by: `priority` plus one level per `agingMs` it has been
+ * due, so low-priority events are not starved. Binds (agingMs, now, agingMs). Mirrors effectivePriority().
+ */
+const EFFECTIVE_PRIORITY_SQL = `(priority + CASE WHEN ? > 0
+  THEN MAX(0, CAST((julianday(?) - julianday(available_at)) * 86400000 / ? AS INTEGER)) ELSE 0 END)`;
+
+/** Priority an event is claimed by at `nowMs`, aged one level per `agingMs` since it fell due (0: no aging). */
+function effectivePriority(row: EventRow, nowMs: number, agingMs: number): number {
+  if (agingMs <= 0) return row.priority;
+  return row.priority + Math.max(0, Math.trunc((nowMs - Date.parse(row.available_at)) / agingMs));
+}
+
+/** Comparator for claim order: highest effective priority first, then earliest due, then oldest. */
+export function byClaimOrder(nowMs: number, agingMs: number): (a: EventRow, b: EventRow) => number {
+  return (a, b) =>
+    effectivePriority(b, nowMs, agingMs) - effectivePriority(a, nowMs, agingMs)
+    || a.available_at.localeCompare(b.available_at)
+    || a.created_at.localeCompare(b.created_at);
+}
+
+/** Rebuild the in-memory Event from its DB row (payload/metadata deserialized). */
+export function toEvent(row: EventRow): Event {
+  return {
+    id: row.id,
+    type: row.type,
+    payload: JSON.parse(row.payload),
+    createdAt: new Date(row.created_at),
+    status: row.status as EventStatus,
+    retryCount: row.retry_count,
+    lastError: row.last_error ?? undefined,
+    metadata: row.metadata != null ? JSON.parse(row.metadata) : undefined,
+    dlqAt: row.dlq_at != null ? new Date(row.dlq_at) : undefined,
+    availableAt: new Date(row.available_at),
+    orderingKey: row.ordering_key ?? undefined,
+    priority: row.priority,
+    expiresAt: row.expires_at != null ? new Date(row.expires_at) : undefined,
+  };
 }
 
 export interface SubscriptionRowDb {
   id: string;
   event_type: string;
   created_at: string;
+  name: string | null;       // set for durable subscriptions
+  position: number;          // durable subscriptions: events up to this seq have been handled
+}
+
+// One row per (event, subscription): delivery state tracked independently per subscriber
+export interface DeliveryRow {
+  event_id: string;
+  subscription_id: string;
+  status: string;            // pending | parked | done | dlq | expired
+  retry_count: number;
+  last_error: string | null; // JSON array of this subscription's error strings
+  created_at: string;
+  updated_at: string;
+  dlq_at: string | null;
+  next_attempt_at: string | null; // durable retries: when this delivery is due again
+}
+
+// One row per handler invocation: the per-attempt history behind a delivery
+export interface AttemptRow {
+  id: number;                // insertion order
+  event_id: string;
+  subscription_id: string;
+  attempt: number;           // 1-based, per delivery
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+  outcome: string | null;    // success | error | timeout | interrupted; NULL while running
+  error_message: string | null;
+  error_name: string | null;
+  error_stack: string | null;
+}
+
+export interface FinishAttemptParams {
+  finishedAt: string;
+  durationMs: number;
+  outcome: 'success' | 'error' | 'timeout';
+  errorMessage?: string | null;
+  errorName?: string | null;
+  errorStack?: string | null;
+}
+
+export interface CircuitBreakerRow {
+  subscription_id: string;
+  state: string;             // closed | open | half-open
+  forced: number;            // 1 while held by a force-open / force-close
+  opened_at: string | null;
+  updated_at: string;
+}
+
+export interface ScheduleRow {
+  id: string;
+  name: string;
+  event_type: string;
+  payload: string;
+  metadata: string | null;
+  cron: string | null;
+  interval_ms: number | null;
+  missed_policy: string;
+  paused: number;
+  next_run_at: string;
+  last_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Rebuild the public Schedule from its DB row. */
+export function toSchedule(row: ScheduleRow): Schedule {
+  return {
+    id: row.id,
+    name: row.name,
+    eventType: row.event_type,
+    payload: JSON.parse(row.payload),
+    metadata: row.metadata != null ? JSON.parse(row.metadata) : undefined,
+    cron: row.cron ?? undefined,
+    intervalMs: row.interval_ms ?? undefined,
+    missedPolicy: row.missed_policy as MissedTickPolicy,
+    paused: row.paused === 1,
+    nextRunAt: new Date(row.next_run_at),
+    lastRunAt: row.last_run_at != null ? new Date(row.last_run_at) : undefined,
+    createdAt: new Date(row.created_at),
+  };
 }
 
 export interface InsertEventParams {
@@ -31,12 +194,33 @@ export interface InsertEventParams {
   updatedAt: string;
   lastError?: string | null;
   metadata?: Record<string, string> | null; // Store serializes to JSON text
+  availableAt?: string;      // default: createdAt (immediately eligible)
+  lockedBy?: string | null;  // lease holder for rows inserted already processing
+  leaseExpiresAt?: string | null;
+  orderingKey?: string | null;
+  priority?: number;         // default: 0
+  expiresAt?: string | null;
 }
 
 export interface InsertSubscriptionParams {
   id: string;
   eventType: string;
   createdAt: string;
+  name?: string | null;
+  position?: number;         // default: 0
+}
+
+export interface UpsertScheduleParams {
+  id: string;
+  name: string;
+  eventType: string;
+  payload: unknown;
+  metadata?: Record<string, string> | null;
+  cron?: string | null;
+  intervalMs?: number | null;
+  missedPolicy: string;
+  nextRunAt: string;
+  createdAt: string;
 }
 
 export class SQLiteStore {
@@ -65,7 +249,14 @@ export class SQLiteStore {
         metadata TEXT,
         created_at TEXT NOT NULL,
         updated_at TEXT NOT NULL,
-        dlq_at TEXT
+        dlq_at TEXT,
+        available_at TEXT NOT NULL,
+        seq INTEGER,
+        locked_by TEXT,
+        lease_expires_at TEXT,
+        ordering_key TEXT,
+        priority INTEGER NOT NULL DEFAULT 0,
+        expires_at TEXT
       );
 
       CREATE INDEX IF NOT EXISTS idx_events_status ON events(status);
@@ -74,11 +265,120 @@ export class SQLiteStore {
       CREATE TABLE IF NOT EXISTS subscriptions (
         id TEXT PRIMARY KEY,
         event_type TEXT NOT NULL,
-        created_at TEXT NOT NULL
+        created_at TEXT NOT NULL,
+        name TEXT,
+        position INTEGER NOT NULL DEFAULT 0
+      );
+
+      -- Monotonic counters; unlike MAX(rowid), a value is never handed out twice even after deletes
+      CREATE TABLE IF NOT EXISTS sequences (
+        name TEXT PRIMARY KEY,
+        value INTEGER NOT NULL
       );
+
+      CREATE TABLE IF NOT EXISTS deliveries (
+        event_id TEXT NOT NULL,
+        subscription_id TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        retry_count INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        dlq_at TEXT,
+        next_attempt_at TEXT,
+        PRIMARY KEY (event_id, subscription_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_deliveries_status ON deliveries(status);
+
+      CREATE TABLE IF NOT EXISTS attempts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        event_id TEXT NOT NULL,
+        subscription_id TEXT NOT NULL,
+        attempt INTEGER NOT NULL,
+        started_at TEXT NOT NULL,
+        finished_at TEXT,
+        duration_ms INTEGER,
+        outcome TEXT,
+        error_message TEXT,
+        error_name TEXT,
+        error_stack TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_attempts_event ON attempts(event_id, id);
+
+      CREATE TABLE IF NOT EXISTS schedules (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        event_type TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        metadata TEXT,
+        cron TEXT,
+        interval_ms INTEGER,
+        missed_policy TEXT NOT NULL DEFAULT 'fire-once',
+        paused INTEGER NOT NULL DEFAULT 0,
+        next_run_at TEXT NOT NULL,
+        last_run_at TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_schedules_due ON schedules(paused, next_run_at);
+
+      CREATE TABLE IF NOT EXISTS circuit_breakers (
+        subscription_id TEXT PRIMARY KEY,
+        state TEXT NOT NULL,
+        forced INTEGER NOT NULL DEFAULT 0,
+        opened_at TEXT,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS dedup_keys (
+        key TEXT PRIMARY KEY,
+        event_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_dedup_keys_expires ON dedup_keys(expires_at);
+    `);
+
+    // Columns added after v1 — CREATE TABLE IF NOT EXISTS leaves older DB files untouched
+    if (this.ensureColumn('events', 'available_at', "TEXT NOT NULL DEFAULT ''")) {
+      this.db.exec("UPDATE events SET available_at = created_at WHERE available_at = ''");
+    }
+    if (this.ensureColumn('events', 'seq', 'INTEGER')) {
+      this.db.exec('UPDATE events SET seq = rowid WHERE seq IS NULL');
+    }
+    this.ensureColumn('events', 'locked_by', 'TEXT');
+    this.ensureColumn('events', 'lease_expires_at', 'TEXT');
+    this.ensureColumn('events', 'ordering_key', 'TEXT');
+    this.ensureColumn('events', 'priority', 'INTEGER NOT NULL DEFAULT 0');
+    this.ensureColumn('events', 'expires_at', 'TEXT');
+    this.ensureColumn('deliveries', 'next_attempt_at', 'TEXT');
+    this.ensureColumn('subscriptions', 'name', 'TEXT');
+    this.ensureColumn('subscriptions', 'position', 'INTEGER NOT NULL DEFAULT 0');
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_events_due ON events(status, available_at);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_events_seq ON events(seq);
+      CREATE INDEX IF NOT EXISTS idx_events_lease ON events(status, lease_expires_at);
+      CREATE INDEX IF NOT EXISTS idx_events_priority ON events(status, priority DESC, available_at);
+      CREATE INDEX IF NOT EXISTS idx_events_ordering_key ON events(ordering_key, seq) WHERE ordering_key IS NOT NULL;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_subscriptions_name ON subscriptions(name);
+
+      INSERT OR IGNORE INTO sequences (name, value) SELECT 'events', COALESCE(MAX(seq), 0) FROM events;
     `);
   }
 
+  /** Add a column to an existing table if it is missing. Returns true when the column was added. */
+  private ensureColumn(table: string, column: string, definition: string): boolean {
+    const columns = this.db.pragma(`table_info('${table}')`) as Array<{ name: string }>;
+    if (columns.some((c) => c.name === column)) return false;
+    this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    return true;
+  }
+
   /** Get or create a cached prepared statement */
   private stmt(sql: string): Statement {
     let s = this.stmtCache.get(sql);
@@ -101,6 +401,24 @@ export class SQLiteStore {
     return this.cacheHits;
   }
 
+  /**
+   * Run `fn` inside a single SQLite transaction (all-or-nothing).
+   * Nested calls become savepoints. `fn` must be synchronous — better-sqlite3 rejects promises.
+   */
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+
+  /** Underlying connection, so callers can write their own rows inside transaction() */
+  getDatabase(): Database.Database {
+    return this.db;
+  }
+
+  /** Changes whenever another connection commits to the database file (PRAGMA data_version). */
+  getDataVersion(): number {
+    return this.db.pragma('data_version', { simple: true }) as number;
+  }
+
   /** Execute a PRAGMA (for testing / config) */
   pragma(sql: string): unknown {
     return this.db.pragma(sql);
@@ -115,20 +433,56 @@ export class SQLiteStore {
     const metadataJson = params.metadata != null
       ? JSON.stringify(params.metadata)
       : null;
-    this.stmt(
-      `INSERT INTO events (id, type, payload, status, retry_count, last_error, metadata, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
-    ).run(
-      params.id,
-      params.type,
-      payloadJson,
-      params.status,
-      params.retryCount,
-      params.lastError ?? null,
-      metadataJson,
-      params.createdAt,
-      params.updatedAt,
-    );
+    this.transaction(() => {
+      const seq = this.nextSequence('events');
+      this.stmt(
+        `INSERT INTO events (id, type, payload, status, retry_count, last_error, metadata, created_at, updated_at, available_at, seq,
+           locked_by, lease_expires_at, ordering_key, priority, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).run(
+        params.id,
+        params.type,
+        payloadJson,
+        params.status,
+        params.retryCount,
+        params.lastError ?? null,
+        metadataJson,
+        params.createdAt,
+        params.updatedAt,
+        params.availableAt ?? params.createdAt,
+        seq,
+        params.lockedBy ?? null,
+        params.leaseExpiresAt ?? null,
+        params.orderingKey ?? null,
+        params.priority ?? 0,
+        params.expiresAt ?? null,
+      );
+    });
+  }
+
+  /** Whether some event with this ordering key is still pending, processing or parked (so a new one must wait). */
+  hasUnfinishedOrderingKey(orderingKey: string): boolean {
+    return this.stmt(
+      'SELECT 1 FROM events WHERE ordering_key = ? AND status IN (?, ?, ?) LIMIT 1'
+    ).get(orderingKey, 'pending', 'processing', 'parked') !== undefined;
+  }
+
+  private nextSequence(name: string): number {
+    const row = this.stmt(
+      'UPDATE sequences SET value = value + 1 WHERE name = ? RETURNING value'
+    ).get(name) as { value: number };
+    return row.value;
+  }
+
+  /** Highest event seq handed out so far (0 for an empty database). */
+  getLastEventSeq(): number {
+    const row = this.stmt('SELECT value FROM sequences WHERE name = ?').get('events') as { value: number };
+    return row.value;
+  }
+
+  /** Events inserted after `seq`, in insertion order. */
+  getEventsAfter(seq: number, limit: number): EventRow[] {
+    return this.stmt('SELECT * FROM events WHERE seq > ? ORDER BY seq LIMIT ?').all(seq, limit) as EventRow[];
   }
 
   getEvent(id: string): EventRow | undefined {
@@ -141,6 +495,22 @@ export class SQLiteStore {
     ).run(status, new Date().toISOString(), id);
   }
 
+  /**
+   * Terminal transition for an event past its expires_at: status→expired with the lease cleared, and
+   * deliveries that never completed go to expired too. Completed and dead deliveries are kept as they are.
+   */
+  expireEvent(id: string): void {
+    const now = new Date().toISOString();
+    this.transaction(() => {
+      this.stmt(
+        'UPDATE deliveries SET status = ?, next_attempt_at = NULL, updated_at = ? WHERE event_id = ? AND status IN (?, ?)'
+      ).run('expired', now, id, 'pending', 'parked');
+      this.stmt(
+        'UPDATE events SET status = ?, locked_by = NULL, lease_expires_at = NULL, updated_at = ? WHERE id = ?'
+      ).run('expired', now, id);
+    });
+  }
+
   updateEventRetry(id: string, retryCount: number, lastError: string): void {
     this.stmt(
       'UPDATE events SET retry_count = ?, last_error = ?, updated_at = ? WHERE id = ?'
@@ -159,6 +529,134 @@ export class SQLiteStore {
     return this.stmt('SELECT * FROM events WHERE status = ?').all(status) as EventRow[];
   }
 
+  /**
+   * Atomically claim up to `limit` due pending events (available_at <= now) by flipping them to
+   * processing under a lease held by `lockedBy`. A single UPDATE ... RETURNING, so two callers — in
+   * this process or another one on the same file — can never claim the same row.
+   * Highest priority first, aged by `priorityAgingMs` (0: strict priority); ties go to the earliest due.
+   * An event is skipped while an earlier one with the same ordering key is unfinished.
+   * With `subscriptionIds` (those bound in the calling process), an event is also skipped while all its
+   * pending deliveries belong to subscriptions bound in another process.
+   */
+  claimPendingEvents(
+    limit: number,
+    lockedBy: string | null = null,
+    leaseExpiresAt: string | null = null,
+    priorityAgingMs = 0,
+    subscriptionIds?: string[],
+  ): EventRow[] {
+    const nowMs = Date.now();
+    const now = new Date(nowMs).toISOString();
+    const local = subscriptionIds ? JSON.stringify(subscriptionIds) : null;
+    const rows = this.stmt(
+      `UPDATE events SET status = ?, locked_by = ?, lease_expires_at = ?, updated_at = ?
+       WHERE id IN (
+         SELECT id FROM events e WHERE status = ? AND available_at <= ? AND NOT (${ORDERING_BLOCKED_SQL})
+           AND (? IS NULL OR NOT (${HELD_ELSEWHERE_SQL}))
+         ORDER BY ${EFFECTIVE_PRIORITY_SQL} DESC, available_at, created_at LIMIT ?
+       )
+       RETURNING *`
+    ).all(
+      'processing', lockedBy, leaseExpiresAt, now, 'pending', now, local, local,
+      priorityAgingMs, now, priorityAgingMs, limit,
+    ) as EventRow[];
+    // RETURNING order is unspecified — restore claim order
+    return rows.sort(byClaimOrder(nowMs, priorityAgingMs));
+  }
+
+  /**
+   * Take over processing rows whose lease has expired (or that never had one, e.g. written by an
+   * older version): the holder crashed or stalled. The lost attempt counts as a failure — retry_count
+   * is bumped, INTERRUPTED_ATTEMPT_ERROR appended to the error history of the event and of each
+   * delivery still pending, and attempts left open are closed as `interrupted` — so a handler that kills its process runs out of retries instead of
+   * looping across restarts. Live leases held by sibling processes are left alone. Highest priority
+   * first, then oldest. `limit` -1 means no limit.
+   */
+  recoverExpiredLeases(lockedBy: string, leaseExpiresAt: string, limit = -1): EventRow[] {
+    const now = new Date().toISOString();
+    return this.transaction(() => {
+      const rows = this.stmt(
+        `UPDATE events SET locked_by = ?, lease_expires_at = ?, retry_count = retry_count + 1,
+           last_error = ${APPEND_ERROR_SQL}, updated_at = ?
+         WHERE id IN (
+           SELECT id FROM events WHERE status = ? AND (lease_expires_at IS NULL OR lease_expires_at <= ?)
+           ORDER BY priority DESC, seq LIMIT ?
+         )
+         RETURNING *`
+      ).all(lockedBy, leaseExpiresAt, INTERRUPTED_ATTEMPT_ERROR, now, 'processing', now, limit) as EventRow[];
+      const charge = this.stmt(
+        `UPDATE deliveries SET retry_count = retry_count + 1, last_error = ${APPEND_ERROR_SQL}, updated_at = ?
+         WHERE event_id = ? AND status = ?`
+      );
+      const interrupt = this.stmt(
+        `UPDATE attempts SET outcome = ?, finished_at = ?, error_message = ?
+         WHERE event_id = ? AND finished_at IS NULL`
+      );
+      for (const row of rows) {
+        charge.run(INTERRUPTED_ATTEMPT_ERROR, now, row.id, 'pending');
+        interrupt.run('interrupted', now, INTERRUPTED_ATTEMPT_ERROR, row.id);
+      }
+      return rows.sort((a, b) => b.priority - a.priority || a.seq - b.seq);
+    });
+  }
+
+  /** Heartbeat: extend every processing lease held by `lockedBy`. Returns the number of rows renewed. */
+  renewLeases(lockedBy: string, leaseExpiresAt: string): number {
+    return this.stmt(
+      'UPDATE events SET lease_expires_at = ? WHERE locked_by = ? AND status = ?'
+    ).run(leaseExpiresAt, lockedBy, 'processing').changes;
+  }
+
+  /** Take the lease on one event regardless of its status (before re-dispatching a finished event). */
+  leaseEvent(id: string, lockedBy: string, leaseExpiresAt: string): void {
+    this.stmt(
+      'UPDATE events SET locked_by = ?, lease_expires_at = ? WHERE id = ?'
+    ).run(lockedBy, leaseExpiresAt, id);
+  }
+
+  /** Hand a claimed event back: status→pending and the lease cleared, so any worker can claim it. */
+  releaseEvent(id: string): void {
+    this.stmt(
+      'UPDATE events SET status = ?, locked_by = NULL, lease_expires_at = NULL, updated_at = ? WHERE id = ?'
+    ).run('pending', new Date().toISOString(), id);
+  }
+
+  /**
+   * Earliest available_at among claimable pending events (due or not), for scheduling the next wake-up.
+   * Rows held back by their ordering key are skipped — they become claimable when the earlier event finishes —
+   * and so are rows left to another process (see claimPendingEvents).
+   */
+  getNextAvailableAt(subscriptionIds?: string[]): string | undefined {
+    const local = subscriptionIds ? JSON.stringify(subscriptionIds) : null;
+    const row = this.stmt(
+      `SELECT MIN(available_at) AS next FROM events e WHERE status = ? AND NOT (${ORDERING_BLOCKED_SQL})
+         AND (? IS NULL OR NOT (${HELD_ELSEWHERE_SQL}))`
+    ).get('pending', local, local) as { next: string | null };
+    return row.next ?? undefined;
+  }
+
+  // --- Idempotency keys ---
+
+  /** Event ID recorded for `key`, unless the record expired at or before `now`. */
+  getDedupEventId(key: string, now: string): string | undefined {
+    const row = this.stmt(
+      'SELECT event_id FROM dedup_keys WHERE key = ? AND expires_at > ?'
+    ).get(key, now) as { event_id: string } | undefined;
+    return row?.event_id;
+  }
+
+  /** Record `key` → event. Replaces an expired record for the same key. */
+  insertDedupKey(key: string, eventId: string, createdAt: string, expiresAt: string): void {
+    this.stmt(
+      'INSERT OR REPLACE INTO dedup_keys (key, event_id, created_at, expires_at) VALUES (?, ?, ?, ?)'
+    ).run(key, eventId, createdAt, expiresAt);
+  }
+
+  /** Delete dedup records with expires_at <= now. Returns count deleted. */
+  purgeExpiredDedupKeys(now: string): number {
+    return this.stmt('DELETE FROM dedup_keys WHERE expires_at <= ?').run(now).changes;
+  }
+
   // --- DLQ queries (for lane 4) ---
 
   getDlqEvents(offset: number, limit: number): EventRow[] {
@@ -172,41 +670,390 @@ export class SQLiteStore {
     return row.count;
   }
 
-  /** Reset a DLQ event back to pending: status→pending, retry_count→0, last_error→NULL, dlq_at→NULL */
+  /**
+   * Reset a DLQ event back to pending: status→pending, retry_count→0, last_error→NULL, dlq_at→NULL.
+   * available_at→now, so it queues by its priority instead of aging from its original due time.
+   */
   resetDlqEvent(id: string): void {
+    const now = new Date().toISOString();
     this.stmt(
-      'UPDATE events SET status = ?, retry_count = 0, last_error = NULL, dlq_at = NULL, updated_at = ? WHERE id = ?'
-    ).run('pending', new Date().toISOString(), id);
+      `UPDATE events SET status = ?, retry_count = 0, last_error = NULL, dlq_at = NULL, available_at = ?, updated_at = ?
+       WHERE id = ?`
+    ).run('pending', now, now, id);
+  }
+
+  /**
+   * Re-enqueue every dead delivery of an event (successful deliveries stay done), then the event itself.
+   * The re-run covers these deliveries only: subscriptions bound after the event's first dispatch get none.
+   */
+  resetDlqEventDeliveries(id: string): void {
+    const now = new Date().toISOString();
+    this.transaction(() => {
+      this.stmt(
+        `UPDATE deliveries SET status = ?, retry_count = 0, last_error = NULL, dlq_at = NULL, updated_at = ?
+         WHERE event_id = ? AND status = ?`
+      ).run('pending', now, id, 'dlq');
+      this.resetDlqEvent(id);
+    });
   }
 
-  /** Purge DLQ events with created_at <= cutoff (inclusive). Returns count deleted. */
+  /** Purge DLQ events with created_at <= cutoff (inclusive), with their deliveries and attempts. Returns count of events deleted. */
   purgeDlqEvents(cutoff: string): number {
+    return this.transaction(() => {
+      this.stmt(
+        'DELETE FROM deliveries WHERE event_id IN (SELECT id FROM events WHERE status = ? AND created_at <= ?)'
+      ).run('dlq', cutoff);
+      this.stmt(
+        'DELETE FROM attempts WHERE event_id IN (SELECT id FROM events WHERE status = ? AND created_at <= ?)'
+      ).run('dlq', cutoff);
+      const result = this.stmt(
+        'DELETE FROM events WHERE status = ? AND created_at <= ?'
+      ).run('dlq', cutoff);
+      return result.changes;
+    });
+  }
+
+  // --- Deliveries (per-subscription state) ---
+
+  /**
+   * Create a pending delivery for each subscription that does not have one yet for this event. Used by an
+   * event's first dispatch, which fixes its delivery set, and by durable catch-up for the subscription it replays to.
+   */
+  ensureDeliveries(eventId: string, subscriptionIds: string[]): void {
+    const now = new Date().toISOString();
+    const insert = this.stmt(
+      `INSERT OR IGNORE INTO deliveries (event_id, subscription_id, status, retry_count, created_at, updated_at)
+       VALUES (?, ?, ?, 0, ?, ?)`
+    );
+    this.transaction(() => {
+      for (const subId of subscriptionIds) insert.run(eventId, subId, 'pending', now, now);
+    });
+  }
+
+  /**
+   * Park deliveries whose subscription's circuit is open: created as `parked` if missing, pending ones
+   * flipped to `parked`. Finished deliveries are left alone.
+   */
+  parkDeliveries(eventId: string, subscriptionIds: string[]): void {
+    const now = new Date().toISOString();
+    const park = this.stmt(
+      `INSERT INTO deliveries (event_id, subscription_id, status, retry_count, created_at, updated_at)
+       VALUES (?, ?, 'parked', 0, ?, ?)
+       ON CONFLICT (event_id, subscription_id) DO UPDATE SET status = 'parked', updated_at = excluded.updated_at
+       WHERE deliveries.status = 'pending'`
+    );
+    this.transaction(() => {
+      for (const subId of subscriptionIds) park.run(eventId, subId, now, now);
+    });
+  }
+
+  /** Flip this event's parked deliveries for these subscriptions back to pending (their circuits are closed). */
+  resumeParkedDeliveries(eventId: string, subscriptionIds: string[]): void {
+    const now = new Date().toISOString();
+    const resume = this.stmt(
+      'UPDATE deliveries SET status = ?, updated_at = ? WHERE event_id = ? AND subscription_id = ? AND status = ?'
+    );
+    this.transaction(() => {
+      for (const subId of subscriptionIds) resume.run('pending', now, eventId, subId, 'parked');
+    });
+  }
+
+  /**
+   * Release parked deliveries back to pending — those of one subscription, or all of them, oldest event
+   * first, up to `limit` (-1 for no limit) — and put their events back in the queue, due now. That includes
+   * events dead-lettered by another subscription while this delivery was parked; their dispatch puts them
+   * back in the DLQ once the released delivery has run. Returns the number of deliveries released.
+   */
+  releaseParkedDeliveries(subscriptionId: string | null, limit = -1): number {
+    const now = new Date().toISOString();
+    return this.transaction(() => {
+      const released = this.stmt(
+        `UPDATE deliveries SET status = 'pending', updated_at = ?
+         WHERE rowid IN (
+           SELECT d.rowid FROM deliveries d JOIN events e ON e.id = d.event_id
+           WHERE d.status = 'parked' AND (? IS NULL OR d.subscription_id = ?)
+           ORDER BY e.seq LIMIT ?)
+         RETURNING event_id`
+      ).all(now, subscriptionId, subscriptionId, limit) as { event_id: string }[];
+      const requeue = this.stmt(
+        `UPDATE events SET status = 'pending', available_at = ?, updated_at = ? WHERE id = ? AND status IN ('parked', 'dlq')`
+      );
+      for (const eventId of new Set(released.map((r) => r.event_id))) requeue.run(now, now, eventId);
+      return released.length;
+    });
+  }
+
+  getDeliveries(eventId: string): DeliveryRow[] {
+    return this.stmt('SELECT * FROM deliveries WHERE event_id = ?').all(eventId) as DeliveryRow[];
+  }
+
+  getDelivery(eventId: string, subscriptionId: string): DeliveryRow | undefined {
+    return this.stmt(
+      'SELECT * FROM deliveries WHERE event_id = ? AND subscription_id = ?'
+    ).get(eventId, subscriptionId) as DeliveryRow | undefined;
+  }
+
+  markDeliveryDone(eventId: string, subscriptionId: string): void {
+    this.stmt(
+      'UPDATE deliveries SET status = ?, next_attempt_at = NULL, updated_at = ? WHERE event_id = ? AND subscription_id = ?'
+    ).run('done', new Date().toISOString(), eventId, subscriptionId);
+  }
+
+  /** Record a failed attempt for one subscription: retry_count and its JSON error history. */
+  updateDeliveryRetry(eventId: string, subscriptionId: string, retryCount: number, lastError: string): void {
+    this.stmt(
+      'UPDATE deliveries SET retry_count = ?, last_error = ?, updated_at = ? WHERE event_id = ? AND subscription_id = ?'
+    ).run(retryCount, lastError, new Date().toISOString(), eventId, subscriptionId);
+  }
+
+  /**
+   * Durable retry: record a failed attempt for one subscription with its next attempt time, and put
+   * the event back to pending (lease released) so the worker claims it again once that time is due.
+   */
+  scheduleDeliveryRetry(
+    eventId: string,
+    subscriptionId: string,
+    retryCount: number,
+    lastError: string,
+    nextAttemptAt: string,
+  ): void {
+    const now = new Date().toISOString();
+    this.transaction(() => {
+      this.stmt(
+        `UPDATE deliveries SET retry_count = ?, last_error = ?, next_attempt_at = ?, updated_at = ?
+         WHERE event_id = ? AND subscription_id = ?`
+      ).run(retryCount, lastError, nextAttemptAt, now, eventId, subscriptionId);
+      this.stmt(
+        `UPDATE events SET status = ?, available_at = ?, locked_by = NULL, lease_expires_at = NULL, updated_at = ?
+         WHERE id = ?`
+      ).run('pending', nextAttemptAt, now, eventId);
+    });
+  }
+
+  /** Dead-letter a single subscription's delivery: status, error history and dlq_at. */
+  moveDeliveryToDlq(eventId: string, subscriptionId: string, retryCount: number, lastError: string): void {
+    const now = new Date().toISOString();
+    this.stmt(
+      `UPDATE deliveries SET status = ?, retry_count = ?, last_error = ?, dlq_at = ?, next_attempt_at = NULL, updated_at = ?
+       WHERE event_id = ? AND subscription_id = ?`
+    ).run('dlq', retryCount, lastError, now, now, eventId, subscriptionId);
+  }
+
+  getDlqDeliveries(offset: number, limit: number): DeliveryRow[] {
+    return this.stmt(
+      'SELECT * FROM deliveries WHERE status = ? ORDER BY dlq_at DESC LIMIT ? OFFSET ?'
+    ).all('dlq', limit, offset) as DeliveryRow[];
+  }
+
+  countDlqDeliveries(): number {
+    const row = this.stmt('SELECT COUNT(*) as count FROM deliveries WHERE status = ?').get('dlq') as { count: number };
+    return row.count;
+  }
+
+  /**
+   * Re-enqueue one dead delivery: delivery → pending with a fresh retry budget, and its event back
+   * to pending so it is dispatched again. Deliveries that already succeeded stay done.
+   */
+  resetDlqDelivery(eventId: string, subscriptionId: string): void {
+    const now = new Date().toISOString();
+    this.transaction(() => {
+      this.stmt(
+        `UPDATE deliveries SET status = ?, retry_count = 0, last_error = NULL, dlq_at = NULL, updated_at = ?
+         WHERE event_id = ? AND subscription_id = ?`
+      ).run('pending', now, eventId, subscriptionId);
+      // Only a dead event is re-enqueued; one already pending or in flight picks the delivery up as is
+      this.stmt(
+        `UPDATE events SET status = ?, retry_count = 0, last_error = NULL, dlq_at = NULL, available_at = ?, updated_at = ?
+         WHERE id = ? AND status = ?`
+      ).run('pending', now, now, eventId, 'dlq');
+    });
+  }
+
+  // --- Attempts (per-invocation log) ---
+
+  /** Record a handler invocation as it starts. Returns the attempt row ID for finishAttempt(). */
+  startAttempt(eventId: string, subscriptionId: string, attempt: number, startedAt: string): number {
     const result = this.stmt(
-      'DELETE FROM events WHERE status = ? AND created_at <= ?'
-    ).run('dlq', cutoff);
-    return result.changes;
+      'INSERT INTO attempts (event_id, subscription_id, attempt, started_at) VALUES (?, ?, ?, ?)'
+    ).run(eventId, subscriptionId, attempt, startedAt);
+    return Number(result.lastInsertRowid);
+  }
+
+  finishAttempt(id: number, params: FinishAttemptParams): void {
+    this.stmt(
+      `UPDATE attempts SET finished_at = ?, duration_ms = ?, outcome = ?, error_message = ?, error_name = ?, error_stack = ?
+       WHERE id = ?`
+    ).run(
+      params.finishedAt,
+      params.durationMs,
+      params.outcome,
+      params.errorMessage ?? null,
+      params.errorName ?? null,
+      params.errorStack ?? null,
+      id,
+    );
+  }
+
+  /** Every recorded attempt for an event, across subscriptions, in the order they started. */
+  getAttempts(eventId: string): AttemptRow[] {
+    return this.stmt('SELECT * FROM attempts WHERE event_id = ? ORDER BY id').all(eventId) as AttemptRow[];
   }
 
   // --- Subscription CRUD ---
 
   insertSubscription(params: InsertSubscriptionParams): void {
     this.stmt(
-      'INSERT INTO subscriptions (id, event_type, created_at) VALUES (?, ?, ?)'
-    ).run(params.id, params.eventType, params.createdAt);
+      'INSERT INTO subscriptions (id, event_type, created_at, name, position) VALUES (?, ?, ?, ?, ?)'
+    ).run(params.id, params.eventType, params.createdAt, params.name ?? null, params.position ?? 0);
   }
 
   getSubscription(id: string): SubscriptionRowDb | undefined {
     return this.stmt('SELECT * FROM subscriptions WHERE id = ?').get(id) as SubscriptionRowDb | undefined;
   }
 
-  deleteSubscription(id: string): void {
-    this.stmt('DELETE FROM subscriptions WHERE id = ?').run(id);
+  getSubscriptionByName(name: string): SubscriptionRowDb | undefined {
+    return this.stmt('SELECT * FROM subscriptions WHERE name = ?').get(name) as SubscriptionRowDb | undefined;
+  }
+
+  updateSubscriptionEventType(id: string, eventType: string): void {
+    this.stmt('UPDATE subscriptions SET event_type = ? WHERE id = ?').run(eventType, id);
+  }
+
+  /** Advance a durable subscription's checkpoint. Never moves it backwards. */
+  setSubscriptionPosition(id: string, position: number): void {
+    this.stmt(
+      'UPDATE subscriptions SET position = ? WHERE id = ? AND position < ?'
+    ).run(position, id, position);
+  }
+
+  /**
+   * Also drops the subscription's persisted circuit breaker, and expires its unfinished (pending or parked)
+   * deliveries, which nothing can run any more. Events left parked on them go back to the queue, due now,
+   * so a dispatch settles them. Returns the number of events requeued.
+   */
+  deleteSubscription(id: string): number {
+    const now = new Date().toISOString();
+    return this.transaction(() => {
+      this.stmt('DELETE FROM subscriptions WHERE id = ?').run(id);
+      this.stmt('DELETE FROM circuit_breakers WHERE subscription_id = ?').run(id);
+      const dropped = this.stmt(
+        `UPDATE deliveries SET status = ?, next_attempt_at = NULL, updated_at = ?
+         WHERE subscription_id = ? AND status IN (?, ?)
+         RETURNING event_id`
+      ).all('expired', now, id, 'pending', 'parked') as { event_id: string }[];
+      const requeue = this.stmt(
+        `UPDATE events SET status = 'pending', available_at = ?, updated_at = ? WHERE id = ? AND status = 'parked'`
+      );
+      let requeued = 0;
+      for (const { event_id } of dropped) requeued += requeue.run(now, now, event_id).changes;
+      return requeued;
+    });
   }
 
   getAllSubscriptions(): SubscriptionRowDb[] {
     return this.stmt('SELECT * FROM subscriptions').all() as SubscriptionRowDb[];
   }
 
+  // --- Circuit breakers (persisted state, opt-in) ---
+
+  getCircuitBreaker(subscriptionId: string): CircuitBreakerRow | undefined {
+    return this.stmt(
+      'SELECT * FROM circuit_breakers WHERE subscription_id = ?'
+    ).get(subscriptionId) as CircuitBreakerRow | undefined;
+  }
+
+  getAllCircuitBreakers(): CircuitBreakerRow[] {
+    return this.stmt('SELECT * FROM circuit_breakers').all() as CircuitBreakerRow[];
+  }
+
+  saveCircuitBreaker(subscriptionId: string, state: string, forced: boolean, openedAt: string | null): void {
+    this.stmt(
+      `INSERT INTO circuit_breakers (subscription_id, state, forced, opened_at, updated_at) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (subscription_id) DO UPDATE SET
+         state = excluded.state, forced = excluded.forced, opened_at = excluded.opened_at, updated_at = excluded.updated_at`
+    ).run(subscriptionId, state, forced ? 1 : 0, openedAt, new Date().toISOString());
+  }
+
+  deleteCircuitBreaker(subscriptionId: string): void {
+    this.stmt('DELETE FROM circuit_breakers WHERE subscription_id = ?').run(subscriptionId);
+  }
+
+  // --- Schedule CRUD ---
+
+  /** Insert a schedule, or update the definition of the existing one with the same name. */
+  upsertSchedule(params: UpsertScheduleParams): void {
+    const now = new Date().toISOString();
+    this.stmt(
+      `INSERT INTO schedules (id, name, event_type, payload, metadata, cron, interval_ms, missed_policy, next_run_at, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(name) DO UPDATE SET
+         event_type = excluded.event_type, payload = excluded.payload, metadata = excluded.metadata,
+         cron = excluded.cron, interval_ms = excluded.interval_ms, missed_policy = excluded.missed_policy,
+         next_run_at = excluded.next_run_at, updated_at = excluded.updated_at`
+    ).run(
+      params.id,
+      params.name,
+      params.eventType,
+      JSON.stringify(params.payload ?? null),
+      params.metadata != null ? JSON.stringify(params.metadata) : null,
+      params.cron ?? null,
+      params.intervalMs ?? null,
+      params.missedPolicy,
+      params.nextRunAt,
+      params.createdAt,
+      now,
+    );
+  }
+
+  getSchedule(id: string): ScheduleRow | undefined {
+    return this.stmt('SELECT * FROM schedules WHERE id = ?').get(id) as ScheduleRow | undefined;
+  }
+
+  getScheduleByName(name: string): ScheduleRow | undefined {
+    return this.stmt('SELECT * FROM schedules WHERE name = ?').get(name) as ScheduleRow | undefined;
+  }
+
+  getAllSchedules(): ScheduleRow[] {
+    return this.stmt('SELECT * FROM schedules ORDER BY name').all() as ScheduleRow[];
+  }
+
+  /** Active schedules whose next_run_at <= now. */
+  getDueSchedules(now: string): ScheduleRow[] {
+    return this.stmt(
+      'SELECT * FROM schedules WHERE paused = 0 AND next_run_at <= ? ORDER BY next_run_at'
+    ).all(now) as ScheduleRow[];
+  }
+
+  /** Earliest next_run_at among active schedules, for scheduling the next wake-up. */
+  getNextScheduleRunAt(): string | undefined {
+    const row = this.stmt(
+      'SELECT MIN(next_run_at) AS next FROM schedules WHERE paused = 0'
+    ).get() as { next: string | null };
+    return row.next ?? undefined;
+  }
+
+  /**
+   * Compare-and-swap the schedule's next_run_at. Only succeeds if the row still holds
+   * `expectedNextRunAt` and is active, so concurrent processes cannot claim the same tick.
+   */
+  advanceSchedule(id: string, expectedNextRunAt: string, nextRunAt: string, lastRunAt: string | null): boolean {
+    const result = this.stmt(
+      `UPDATE schedules SET next_run_at = ?, last_run_at = COALESCE(?, last_run_at), updated_at = ?
+       WHERE id = ? AND next_run_at = ? AND paused = 0`
+    ).run(nextRunAt, lastRunAt, new Date().toISOString(), id, expectedNextRunAt);
+    return result.changes === 1;
+  }
+
+  setSchedulePaused(id: string, paused: boolean, nextRunAt?: string): void {
+    this.stmt(
+      'UPDATE schedules SET paused = ?, next_run_at = COALESCE(?, next_run_at), updated_at = ? WHERE id = ?'
+    ).run(paused ? 1 : 0, nextRunAt ?? null, new Date().toISOString(), id);
+  }
+
+  deleteSchedule(id: string): void {
+    this.stmt('DELETE FROM schedules WHERE id = ?').run(id);
+  }
+
   /** Execute raw SQL with params (for testing) */
   rawExec(sql: string, ...params: unknown[]): void {
     this.stmt(sql).run(...params);
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { SQLiteStore } from './index.js';
+import Database from 'better-sqlite3';
 import { randomUUID } from 'node:crypto';
 import fs from 'node:fs';
 import path from 'node:path';
@@ -58,6 +59,7 @@ describe('SQLiteStore', () => {
     expect(columns).toContain('created_at');
     expect(columns).toContain('updated_at');
     expect(columns).toContain('dlq_at'); // CHK-015
+    expect(columns).toContain('available_at');
   });
 
   it('auto-creates subscriptions table on construction', () => {
@@ -75,8 +77,56 @@ describe('SQLiteStore', () => {
     expect(names).toContain('idx_events_type');
   });
 
+  it('adds columns introduced after v1 to an existing database file', () => {
+    store.close();
+    const legacyPath = createTmpDbPath();
+    const legacy = new Database(legacyPath);
+    legacy.exec(`
+      CREATE TABLE events (
+        id TEXT PRIMARY KEY, type TEXT NOT NULL, payload TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending', retry_count INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT, metadata TEXT, created_at TEXT NOT NULL, updated_at TEXT NOT NULL, dlq_at TEXT
+      );
+      CREATE TABLE subscriptions (id TEXT PRIMARY KEY, event_type TEXT NOT NULL, created_at TEXT NOT NULL);
+    `);
+    legacy.prepare(
+      "INSERT INTO events (id, type, payload, created_at, updated_at) VALUES ('old', 't', '{}', ?, ?)"
+    ).run('2024-01-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z');
+    legacy.close();
+
+    store = new SQLiteStore(legacyPath);
+    const columns = (store.pragma("table_info('events')") as Array<{ name: string }>).map((c) => c.name);
+    expect(columns).toContain('available_at');
+    // Backfilled so pre-existing pending rows stay immediately eligible
+    expect(store.getEvent('old')!.available_at).toBe('2024-01-01T00:00:00.000Z');
+    // Insertion sequence backfilled from rowid; new events continue after it
+    expect(store.getEvent('old')!.seq).toBe(1);
+    expect(store.getLastEventSeq()).toBe(1);
+    expect(store.getEvent('old')!.priority).toBe(0);
+    const subColumns = (store.pragma("table_info('subscriptions')") as Array<{ name: string }>).map((c) => c.name);
+    expect(subColumns).toContain('name');
+    expect(subColumns).toContain('position');
+    cleanupDb(legacyPath);
+  });
+
   // --- Event CRUD ---
 
+  it('assigns a strictly increasing seq that is not reused after deletes', () => {
+    const now = new Date().toISOString();
+    const insert = (id: string) => store.insertEvent({
+      id, type: 't', payload: {}, status: 'dlq', retryCount: 0, createdAt: now, updatedAt: now,
+    });
+    insert('a');
+    insert('b');
+    expect(store.getEvent('b')!.seq).toBe(store.getEvent('a')!.seq + 1);
+
+    const lastSeq = store.getEvent('b')!.seq;
+    store.purgeDlqEvents(now); // deletes the newest row too
+    insert('c');
+    expect(store.getEvent('c')!.seq).toBe(lastSeq + 1);
+    expect(store.getEventsAfter(0, 10).map((r) => r.id)).toEqual(['c']);
+  });
+
   it('inserts and retrieves an event', () => {
     const id = randomUUID();
     const now = new Date().toISOString();
@@ -1,20 +1,54 @@
 // Shared types for the EventBus system
 
-export type EventStatus = 'pending' | 'processing' | 'done' | 'dlq';
+export type EventStatus = 'pending' | 'processing' | 'parked' | 'done' | 'dlq' | 'expired';
 
-export interface Event {
+// Typed buses (see EventBus's TEvents) narrow `type` and `payload`; the defaults are the untyped event
+export interface Event<TType extends string = string, TPayload = unknown> {
   id: string;
-  type: string;
-  payload: unknown;
+  type: TType;
+  payload: TPayload;
   createdAt: Date;
   status: EventStatus;
   retryCount: number;
   lastError?: string;       // JSON array of error strings from each failed attempt
   metadata?: Record<string, string>;
   dlqAt?: Date;             // Timestamp when event entered DLQ (CHK-015)
+  availableAt?: Date;       // Earliest time the event may be dispatched (delayed delivery)
+  orderingKey?: string;     // events sharing a key are dispatched one at a time, in publish order
+  priority?: number;        // higher is claimed first (default: 0)
+  expiresAt?: Date;         // not dispatched or retried after this instant (status → expired)
+}
+
+// Per-invocation extras passed to a handler as its second argument (one-argument handlers can ignore it)
+export interface HandlerContext {
+  signal: AbortSignal;      // aborted when the handler times out, or when shutdown stops waiting for it
+  attempt: number;          // 1-based attempt for this subscription's delivery
+  maxAttempts: number;      // maxRetries + 1 of the merged retry policy
+  subscriptionId: string;
+  logger: HandlerLogger;    // entries carry event, subscription and attempt fields
+  // Publish a follow-up event; sets metadata.correlationId (inherited, else this event's ID) and causationId
+  publish(eventType: string, payload: unknown, metadata?: Record<string, string>, options?: PublishOptions): Promise<string>;
+}
+
+export interface HandlerLogger {
+  debug(message: string, fields?: Record<string, unknown>): void;
+  info(message: string, fields?: Record<string, unknown>): void;
+  warn(message: string, fields?: Record<string, unknown>): void;
+  error(message: string, fields?: Record<string, unknown>): void;
 }
 
-export type EventHandler = (event: Event) => Promise<void>;
+export type EventHandler<TEvent extends Event = Event> = (event: TEvent, context: HandlerContext) => Promise<void>;
+
+// Wraps each handler invocation, Koa-style: `await next()` runs the rest of the chain and the handler.
+// Throwing fails the attempt like a handler error; returning without calling next() skips the handler
+export type HandlerMiddleware = (event: Event, context: HandlerContext, next: () => Promise<void>) => Promise<void>;
+
+// Runs before a publish inserts its event: mutate `input` or return a replacement; throw to reject the publish.
+// Synchronous, as transaction() publishes inside a synchronous SQLite transaction
+export type PublishMiddleware = (input: PublishInput) => PublishInput | void;
+
+// How a subscription's handler runs alongside the others matching the same event
+export type HandlerExecution = 'sequential' | 'parallel';
 
 // In-memory representation (with handler)
 export interface Subscription {
@@ -24,6 +58,10 @@ export interface Subscription {
   createdAt: Date;
   timeoutMs?: number;       // per-subscription handler timeout override
   retry?: Partial<RetryPolicy>; // per-subscription retry override
+  circuitBreaker?: Partial<CircuitBreakerOptions>; // per-subscription breaker override
+  execution?: HandlerExecution; // per-subscription override of the dispatcher's handlerExecution
+  middleware?: HandlerMiddleware[]; // runs inside the dispatcher-wide middleware, around this handler only
+  name?: string;            // durable subscriptions only
 }
 
 // DB representation (handler is not serializable)
@@ -31,11 +69,67 @@ export interface SubscriptionRow {
   id: string;
   eventType: string;
   createdAt: Date;
+  name?: string;
+}
+
+// Durable subscription: rebinds to the same row (and ID) across restarts by name
+export interface NamedSubscription<TPattern extends string = string> {
+  name: string;
+  pattern: TPattern;        // glob pattern, as for eventType
 }
 
 export interface SubscribeOptions {
   timeoutMs?: number;
   retry?: Partial<RetryPolicy>;
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
+  execution?: HandlerExecution;
+  middleware?: HandlerMiddleware[];
+}
+
+export interface PublishOptions {
+  delayMs?: number;         // dispatch no earlier than now + delayMs
+  deliverAt?: Date | number; // dispatch no earlier than this instant (exclusive with delayMs)
+  idempotencyKey?: string;  // repeat publishes with the same key inside the dedup window return the first event ID
+  orderingKey?: string;     // e.g. an aggregate ID: waits until earlier events with this key are done or dead-lettered
+  priority?: number;        // integer; higher-priority events are claimed first (default: 0)
+  expiresAt?: Date | number; // drop the event (status → expired) if not delivered by this instant
+  ttlMs?: number;           // expire this long after publish (exclusive with expiresAt)
+}
+
+// One entry of EventBus.publishMany()
+export interface PublishInput<TType extends string = string, TPayload = unknown> extends PublishOptions {
+  type: TType;
+  payload: TPayload;
+  metadata?: Record<string, string>;
+}
+
+// What to do when a recurring schedule missed one or more ticks (e.g. process was down)
+export type MissedTickPolicy = 'fire-once' | 'skip';
+
+export interface ScheduleOptions {
+  name: string;             // unique; registering the same name again updates the schedule
+  eventType: string;
+  payload?: unknown;
+  metadata?: Record<string, string>;
+  cron?: string;            // 5-field cron expression, evaluated in UTC (exclusive with intervalMs)
+  intervalMs?: number;      // fixed interval (exclusive with cron)
+  missedPolicy?: MissedTickPolicy; // default: 'fire-once'
+}
+
+// A recurring schedule persisted in the schedules table
+export interface Schedule {
+  id: string;
+  name: string;
+  eventType: string;
+  payload: unknown;
+  metadata?: Record<string, string>;
+  cron?: string;
+  intervalMs?: number;
+  missedPolicy: MissedTickPolicy;
+  paused: boolean;
+  nextRunAt: Date;
+  lastRunAt?: Date;
+  createdAt: Date;
 }
 
 export interface RetryPolicy {
@@ -43,11 +137,64 @@ export interface RetryPolicy {
   baseDelayMs: number;      // default: 1000
   maxDelayMs: number;       // default: 30000
   backoffMultiplier: number; // default: 2
+  backoff?: BackoffStrategy; // default: 'exponential'; the failing subscription's own strategy applies
+  // Classification of the subscription's own errors (not merged across subscriptions):
+  isRetryable?: (error: unknown) => boolean; // false → dead-letter the delivery without retrying
+  errorRules?: RetryRule[]; // first matching rule wins
+}
+
+// Matches an error by class (instanceof) or by predicate
+export type ErrorMatcher = (abstract new (...args: never[]) => Error) | ((error: unknown) => boolean);
+
+// Per-error-class retry behaviour, e.g. a longer backoff for rate limiting
+export interface RetryRule {
+  match: ErrorMatcher;
+  retryable?: boolean;      // false → dead-letter on first occurrence (default: true)
+  baseDelayMs?: number;     // backoff overrides for matching errors
+  maxDelayMs?: number;
+  backoffMultiplier?: number;
+  backoff?: BackoffStrategy;
 }
 
+// Built-in backoff schedules (retry k = 1, 2, ... precedes attempt k + 1):
+//   exponential             base * multiplier^(k-1), capped at maxDelayMs, ±10% jitter
+//   fixed                   base every time
+//   linear                  base * k, capped
+//   exponential-full-jitter random in [0, exponential delay without jitter]
+//   decorrelated-jitter     random in [base, previous delay * 3], capped (first retry: base)
+//   fibonacci               base * fib(k) — 1, 1, 2, 3, 5, ... — capped
+export type BackoffName =
+  | 'exponential'
+  | 'fixed'
+  | 'linear'
+  | 'exponential-full-jitter'
+  | 'decorrelated-jitter'
+  | 'fibonacci';
+
+// Custom strategy: returns the delay in ms before `attempt` (2 for the first retry)
+export type BackoffFn = (attempt: number, error: unknown, event: Event) => number;
+
+// A name (built-in or registered through DispatcherOptions.backoffStrategies) or an explicit delay
+// list — the last entry repeats — serialize as plain JSON; an inline callback does not
+export type BackoffStrategy = BackoffName | (string & {}) | { delays: number[] } | BackoffFn;
+
 export const DEFAULT_RETRY_POLICY: RetryPolicy = {
   maxRetries: 3,
   baseDelayMs: 1000,
   maxDelayMs: 30000,
   backoffMultiplier: 2,
 };
+
+export interface CircuitBreakerOptions {
+  windowMs: number;         // default: 60000 — outcomes older than this are forgotten
+  minSamples: number;       // default: 4 — outcomes in the window before it can trip
+  failureThreshold: number; // default: 0.5 — trips when the failure rate exceeds this
+  pauseMs: number;          // default: 30000 — time open before a single half-open probe
+}
+
+export const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerOptions = {
+  windowMs: 60_000,
+  minSamples: 4,
+  failureThreshold: 0.5,
+  pauseMs: 30_000,
+};
@@ -0,0 +1,68 @@
+import { SQLiteStore } from '../store/index.js';
+
+export interface WatcherOptions {
+  /** Check for commits from other processes this often; unset (default) disables cross-process delivery */
+  watchIntervalMs?: number;
+}
+
+/**
+ * ChangeWatcher: detects commits made by other connections to the same database file by polling
+ * `PRAGMA data_version`, which is cheap and only moves when someone else writes. On a change it
+ * runs the `onChange` callback to completion before polling again. The first poll always fires.
+ * Owns no event logic itself — EventBus supplies the callback.
+ */
+export class ChangeWatcher {
+  private store: SQLiteStore;
+  private onChange: () => Promise<void>;
+  private intervalMs: number;
+  private running = false;
+  private lastVersion: number | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(store: SQLiteStore, onChange: () => Promise<void>, intervalMs: number) {
+    this.store = store;
+    this.onChange = onChange;
+    this.intervalMs = intervalMs;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  private schedule(ms: number): void {
+    this.timer = setTimeout(() => void this.tick(), ms);
+    this.timer.unref();
+  }
+
+  private async tick(): Promise<void> {
+    this.timer = null;
+    if (!this.running) return;
+
+    const version = this.store.getDataVersion();
+    if (version !== this.lastVersion) {
+      this.lastVersion = version;
+      await this.onChange().catch((err) => console.error(JSON.stringify({
+        level: 'error',
+        message: 'change watcher callback failed',
+        data_version: version,
+        error: err instanceof Error ? err.message : String(err),
+      })));
+    }
+
+    if (this.running) this.schedule(this.intervalMs);
+  }
+}
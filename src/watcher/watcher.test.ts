@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ChangeWatcher } from './index.js';
+import { SQLiteStore } from '../store/index.js';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+function createTmpDbPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'watcher-test-'));
+  return path.join(dir, 'test.db');
+}
+
+function cleanupDb(dbPath: string): void {
+  try { fs.rmSync(path.dirname(dbPath), { recursive: true, force: true }); } catch { /* */ }
+}
+
+function insertPending(store: SQLiteStore): void {
+  const now = new Date().toISOString();
+  store.insertEvent({
+    id: crypto.randomUUID(), type: 'test', payload: {}, status: 'pending', retryCount: 0,
+    createdAt: now, updatedAt: now,
+  });
+}
+
+async function waitFor(cond: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!cond()) {
+    if (Date.now() - start > timeoutMs) throw new Error('waitFor timed out');
+    await new Promise((r) => setTimeout(r, 5));
+  }
+}
+
+describe('ChangeWatcher', () => {
+  let dbPath: string;
+  let store: SQLiteStore;
+  let other: SQLiteStore;
+  let watcher: ChangeWatcher | undefined;
+
+  beforeEach(() => {
+    dbPath = createTmpDbPath();
+    store = new SQLiteStore(dbPath);
+    other = new SQLiteStore(dbPath); // a second connection stands in for another process
+  });
+
+  afterEach(() => {
+    watcher?.stop();
+    store?.close();
+    other?.close();
+    cleanupDb(dbPath);
+  });
+
+  it('fires on the first poll, then only when another connection commits', async () => {
+    let calls = 0;
+    watcher = new ChangeWatcher(store, async () => { calls++; }, 10);
+    watcher.start();
+    await waitFor(() => calls === 1);
+
+    insertPending(store); // own writes do not move data_version
+    await new Promise((r) => setTimeout(r, 40));
+    expect(calls).toBe(1);
+
+    insertPending(other);
+    await waitFor(() => calls === 2);
+  });
+
+  it('does not overlap callbacks and stops polling after stop()', async () => {
+    let active = 0;
+    let peak = 0;
+    let calls = 0;
+    watcher = new ChangeWatcher(store, async () => {
+      active++;
+      peak = Math.max(peak, active);
+      calls++;
+      await new Promise((r) => setTimeout(r, 30));
+      active--;
+    }, 1);
+    watcher.start();
+    insertPending(other);
+    await new Promise((r) => setTimeout(r, 20));
+    insertPending(other);
+    await waitFor(() => calls === 2);
+    expect(peak).toBe(1);
+
+    watcher.stop();
+    expect(watcher.isRunning()).toBe(false);
+    await new Promise((r) => setTimeout(r, 40)); // let the in-progress callback finish
+    const settled = calls;
+    insertPending(other);
+    await new Promise((r) => setTimeout(r, 30));
+    expect(calls).toBe(settled);
+  });
+
+  it('logs a failing callback as JSON and keeps polling', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      let calls = 0;
+      watcher = new ChangeWatcher(store, async () => {
+        if (++calls === 1) throw new Error('replay failed');
+      }, 10);
+      watcher.start();
+      await waitFor(() => calls === 1);
+
+      insertPending(other);
+      await waitFor(() => calls === 2);
+      expect(error).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(error.mock.calls[0][0] as string)).toMatchObject({
+        level: 'error', message: 'change watcher callback failed', error: 'replay failed',
+      });
+    } finally {
+      error.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,148 @@
+import { randomUUID } from 'node:crypto';
+import os from 'node:os';
+import { SQLiteStore, toEvent } from '../store/index.js';
+import type { Event } from '../types/index.js';
+
+export const DEFAULT_WORKER_CONCURRENCY = 1;
+export const DEFAULT_POLL_INTERVAL_MS = 250;
+export const DEFAULT_LEASE_MS = 30_000;
+export const DEFAULT_PRIORITY_AGING_MS = 60_000;
+
+export interface WorkerOptions {
+  /** Max events dispatched at once by the background worker (default: 1) */
+  concurrency?: number;
+  /** Max time between polls for pending rows; the worker also wakes exactly when a delayed event falls due (default: 250ms) */
+  pollIntervalMs?: number;
+  /** Identifies this process in `locked_by` (default: hostname:pid:random) */
+  consumerId?: string;
+  /** How long a claim stays valid without a heartbeat before another process may take it over (default: 30s) */
+  leaseMs?: number;
+  /** A waiting event gains one priority level per this much time since it fell due; 0 disables aging (default: 60s) */
+  priorityAgingMs?: number;
+}
+
+/** Default consumer ID: unique per process, readable in the `locked_by` column. */
+export function defaultConsumerId(): string {
+  return `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * DispatchWorker: background loop that claims due `pending` rows from SQLiteStore and
+ * hands them to a dispatch callback, keeping at most `concurrency` events in flight.
+ * Also acts as the scheduler for delayed events: it sleeps until the next `available_at`.
+ * Claims go highest priority first, with aging so low-priority events are not starved.
+ * Claims are leased to `consumerId`, so several processes can compete for rows in the same file;
+ * spare capacity also takes over `processing` rows whose lease expired (their holder died).
+ * Rows whose pending deliveries all belong to subscriptions bound in another process are left to that process.
+ * Owns no dispatch logic itself — EventBus supplies the callback and the bound subscription IDs,
+ * tracks the promises and renews leases.
+ */
+export class DispatchWorker {
+  private store: SQLiteStore;
+  private dispatch: (event: Event) => Promise<void>;
+  private subscriptionIds: (() => string[]) | undefined;
+  private concurrency: number;
+  private pollIntervalMs: number;
+  private consumerId: string;
+  private leaseMs: number;
+  private priorityAgingMs: number;
+  private running = false;
+  private active = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    store: SQLiteStore,
+    dispatch: (event: Event) => Promise<void>,
+    options?: WorkerOptions,
+    subscriptionIds?: () => string[],
+  ) {
+    this.store = store;
+    this.dispatch = dispatch;
+    this.subscriptionIds = subscriptionIds;
+    this.concurrency = Math.max(1, options?.concurrency ?? DEFAULT_WORKER_CONCURRENCY);
+    this.pollIntervalMs = options?.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.consumerId = options?.consumerId ?? defaultConsumerId();
+    this.leaseMs = options?.leaseMs ?? DEFAULT_LEASE_MS;
+    this.priorityAgingMs = options?.priorityAgingMs ?? DEFAULT_PRIORITY_AGING_MS;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /** Stop claiming new rows. Dispatches already handed out keep running. */
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Poll immediately instead of waiting for the next interval (e.g. right after a publish). */
+  wake(): void {
+    if (!this.running) return;
+    this.schedule(0);
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  getActiveCount(): number {
+    return this.active;
+  }
+
+  private schedule(ms: number): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.tick(), ms);
+    // Pending rows are durable — an idle worker must not keep the process alive
+    this.timer.unref();
+  }
+
+  private tick(): void {
+    this.timer = null;
+    if (!this.running) return;
+
+    const leaseExpiresAt = new Date(Date.now() + this.leaseMs).toISOString();
+    const local = this.subscriptionIds?.();
+    let capacity = this.concurrency - this.active;
+    if (capacity > 0) {
+      for (const row of this.store.claimPendingEvents(capacity, this.consumerId, leaseExpiresAt, this.priorityAgingMs, local)) {
+        this.run(toEvent(row));
+      }
+    }
+    capacity = this.concurrency - this.active;
+    if (capacity > 0) {
+      for (const row of this.store.recoverExpiredLeases(this.consumerId, leaseExpiresAt, capacity)) {
+        this.run(toEvent(row));
+      }
+    }
+
+    // At capacity, a finishing dispatch wakes us; otherwise sleep until the next delayed event is due
+    let delay = this.pollIntervalMs;
+    if (this.active < this.concurrency) {
+      const next = this.store.getNextAvailableAt(local);
+      if (next) delay = Math.min(delay, Math.max(0, Date.parse(next) - Date.now()));
+    }
+    this.schedule(delay);
+  }
+
+  private run(event: Event): void {
+    this.active++;
+    this.dispatch(event)
+      .catch((err) => console.error(JSON.stringify({
+        level: 'error',
+        message: 'background dispatch failed',
+        event_id: event.id,
+        event_type: event.type,
+        error: err instanceof Error ? err.message : String(err),
+      })))
+      .finally(() => {
+        this.active--;
+        this.wake(); // a slot freed up — pick up the backlog without waiting a full interval
+      });
+  }
+}
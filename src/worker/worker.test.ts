@@ -0,0 +1,263 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DispatchWorker } from './index.js';
+import { SQLiteStore } from '../store/index.js';
+import type { Event } from '../types/index.js';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+function createTmpDbPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'worker-test-'));
+  return path.join(dir, 'test.db');
+}
+
+function cleanupDb(dbPath: string): void {
+  try { fs.rmSync(path.dirname(dbPath), { recursive: true, force: true }); } catch { /* */ }
+}
+
+function insertPending(store: SQLiteStore, createdAt = new Date().toISOString()): string {
+  const id = crypto.randomUUID();
+  store.insertEvent({
+    id, type: 'test', payload: { n: 1 }, status: 'pending', retryCount: 0,
+    createdAt, updatedAt: createdAt, metadata: { source: 'test' },
+  });
+  return id;
+}
+
+async function waitFor(cond: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!cond()) {
+    if (Date.now() - start > timeoutMs) throw new Error('waitFor timed out');
+    await new Promise((r) => setTimeout(r, 5));
+  }
+}
+
+describe('SQLiteStore.claimPendingEvents()', () => {
+  let store: SQLiteStore;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dbPath = createTmpDbPath();
+    store = new SQLiteStore(dbPath);
+  });
+
+  afterEach(() => {
+    store?.close();
+    cleanupDb(dbPath);
+  });
+
+  it('claims oldest pending rows first and flips them to processing', () => {
+    const late = insertPending(store, '2024-01-02T00:00:00.000Z');
+    const early = insertPending(store, '2024-01-01T00:00:00.000Z');
+
+    const claimed = store.claimPendingEvents(1);
+    expect(claimed.map((r) => r.id)).toEqual([early]);
+    expect(store.getEvent(early)!.status).toBe('processing');
+    expect(store.getEvent(late)!.status).toBe('pending');
+  });
+
+  it('never returns the same row twice', () => {
+    insertPending(store);
+    expect(store.claimPendingEvents(10)).toHaveLength(1);
+    expect(store.claimPendingEvents(10)).toHaveLength(0);
+  });
+
+  it('holds back an event until earlier events with its ordering key finish', () => {
+    const keyed = (orderingKey: string) => {
+      const id = crypto.randomUUID();
+      const now = new Date().toISOString();
+      store.insertEvent({
+        id, type: 'test', payload: {}, status: 'pending', retryCount: 0, createdAt: now, updatedAt: now, orderingKey,
+      });
+      return id;
+    };
+    const a1 = keyed('order-1');
+    const a2 = keyed('order-1');
+    const b1 = keyed('order-2');
+
+    expect(store.claimPendingEvents(10).map((r) => r.id).sort()).toEqual([a1, b1].sort());
+    expect(store.claimPendingEvents(10)).toHaveLength(0);
+    expect(store.getNextAvailableAt()).toBeUndefined(); // a2 is blocked, not due
+
+    store.updateEventStatus(a1, 'dlq'); // dead-lettering releases the key
+    expect(store.claimPendingEvents(10).map((r) => r.id)).toEqual([a2]);
+  });
+
+  describe('priority', () => {
+    const minutesAgo = (m: number) => new Date(Date.now() - m * 60_000).toISOString();
+    const withPriority = (priority: number, availableAt: string) => {
+      const id = crypto.randomUUID();
+      store.insertEvent({
+        id, type: 'test', payload: {}, status: 'pending', retryCount: 0,
+        createdAt: availableAt, updatedAt: availableAt, availableAt, priority,
+      });
+      return id;
+    };
+
+    it('claims higher priority first, earliest due within a priority', () => {
+      const low = withPriority(0, minutesAgo(2));
+      const highLate = withPriority(5, minutesAgo(1));
+      const highEarly = withPriority(5, minutesAgo(2));
+
+      expect(store.claimPendingEvents(10).map((r) => r.id)).toEqual([highEarly, highLate, low]);
+    });
+
+    it('ages waiting events one level per priorityAgingMs', () => {
+      const starved = withPriority(0, minutesAgo(10));
+      const urgent = withPriority(5, minutesAgo(0));
+
+      // 10 minutes at one level per minute lifts the starved event above priority 5
+      expect(store.claimPendingEvents(1, null, null, 60_000).map((r) => r.id)).toEqual([starved]);
+      expect(store.claimPendingEvents(1, null, null, 60_000).map((r) => r.id)).toEqual([urgent]);
+    });
+
+    it('without aging, priority is strict', () => {
+      withPriority(0, minutesAgo(10));
+      const urgent = withPriority(5, minutesAgo(0));
+      expect(store.claimPendingEvents(1).map((r) => r.id)).toEqual([urgent]);
+    });
+  });
+});
+
+describe('SQLiteStore leases', () => {
+  let store: SQLiteStore;
+  let dbPath: string;
+  const inOneMinute = () => new Date(Date.now() + 60_000).toISOString();
+  const past = '2000-01-01T00:00:00.000Z';
+
+  beforeEach(() => {
+    dbPath = createTmpDbPath();
+    store = new SQLiteStore(dbPath);
+  });
+
+  afterEach(() => {
+    store?.close();
+    cleanupDb(dbPath);
+  });
+
+  it('claimPendingEvents() records the lease holder and expiry', () => {
+    const id = insertPending(store);
+    const expires = inOneMinute();
+    store.claimPendingEvents(1, 'consumer-a', expires);
+    const row = store.getEvent(id)!;
+    expect(row.locked_by).toBe('consumer-a');
+    expect(row.lease_expires_at).toBe(expires);
+  });
+
+  it('recoverExpiredLeases() takes over expired and lease-less rows only, counting the lost attempt', () => {
+    const live = insertPending(store);
+    store.claimPendingEvents(1, 'consumer-a', inOneMinute());
+    const expired = insertPending(store);
+    store.claimPendingEvents(1, 'consumer-b', past);
+    const legacy = crypto.randomUUID();
+    const now = new Date().toISOString();
+    store.insertEvent({ id: legacy, type: 'test', payload: {}, status: 'processing', retryCount: 0, createdAt: now, updatedAt: now });
+
+    const recovered = store.recoverExpiredLeases('consumer-c', inOneMinute());
+    expect(recovered.map((r) => r.id)).toEqual([expired, legacy]);
+    expect(store.getEvent(expired)!.locked_by).toBe('consumer-c');
+    expect(store.getEvent(expired)!.retry_count).toBe(1);
+    expect(store.getEvent(live)!.locked_by).toBe('consumer-a');
+    expect(store.getEvent(live)!.retry_count).toBe(0);
+  });
+
+  it('renewLeases() extends only the caller\'s processing rows', () => {
+    const mine = insertPending(store);
+    store.claimPendingEvents(1, 'consumer-a', past);
+    const theirs = insertPending(store);
+    store.claimPendingEvents(1, 'consumer-b', past);
+
+    const expires = inOneMinute();
+    expect(store.renewLeases('consumer-a', expires)).toBe(1);
+    expect(store.getEvent(mine)!.lease_expires_at).toBe(expires);
+    expect(store.getEvent(theirs)!.lease_expires_at).toBe(past);
+  });
+});
+
+describe('DispatchWorker', () => {
+  let store: SQLiteStore;
+  let dbPath: string;
+  let worker: DispatchWorker | undefined;
+
+  beforeEach(() => {
+    dbPath = createTmpDbPath();
+    store = new SQLiteStore(dbPath);
+  });
+
+  afterEach(() => {
+    worker?.stop();
+    store?.close();
+    cleanupDb(dbPath);
+  });
+
+  it('claims pending rows and dispatches them as deserialized events', async () => {
+    const id = insertPending(store);
+    const seen: Event[] = [];
+    worker = new DispatchWorker(store, async (event) => { seen.push(event); }, { pollIntervalMs: 10 });
+    worker.start();
+
+    await waitFor(() => seen.length === 1);
+    expect(seen[0].id).toBe(id);
+    expect(seen[0].payload).toEqual({ n: 1 });
+    expect(seen[0].metadata).toEqual({ source: 'test' });
+  });
+
+  it('never exceeds the configured concurrency', async () => {
+    for (let i = 0; i < 6; i++) insertPending(store);
+    let active = 0;
+    let peak = 0;
+    let done = 0;
+    worker = new DispatchWorker(store, async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((r) => setTimeout(r, 20));
+      active--;
+      done++;
+    }, { concurrency: 2, pollIntervalMs: 10 });
+    worker.start();
+
+    await waitFor(() => done === 6);
+    expect(peak).toBe(2);
+  });
+
+  it('wake() picks up new rows without waiting for the poll interval', async () => {
+    const seen: string[] = [];
+    worker = new DispatchWorker(store, async (event) => { seen.push(event.id); }, { pollIntervalMs: 60_000 });
+    worker.start();
+    await new Promise((r) => setTimeout(r, 10)); // let the initial (empty) poll run
+
+    const id = insertPending(store);
+    worker.wake();
+    await waitFor(() => seen.length === 1, 500);
+    expect(seen).toEqual([id]);
+  });
+
+  it('stops claiming after stop()', async () => {
+    const seen: string[] = [];
+    worker = new DispatchWorker(store, async (event) => { seen.push(event.id); }, { pollIntervalMs: 10 });
+    worker.start();
+    worker.stop();
+
+    const id = insertPending(store);
+    worker.wake(); // no-op once stopped
+    await new Promise((r) => setTimeout(r, 40));
+    expect(seen).toEqual([]);
+    expect(store.getEvent(id)!.status).toBe('pending');
+  });
+
+  it('takes over events whose lease expired (holder died) when it has spare capacity', async () => {
+    const id = insertPending(store);
+    store.claimPendingEvents(1, 'dead-consumer', '2000-01-01T00:00:00.000Z');
+
+    const seen: Event[] = [];
+    worker = new DispatchWorker(store, async (event) => { seen.push(event); }, {
+      pollIntervalMs: 10, consumerId: 'live-consumer',
+    });
+    worker.start();
+
+    await waitFor(() => seen.length === 1);
+    expect(seen[0].id).toBe(id);
+    expect(store.getEvent(id)!.locked_by).toBe('live-consumer');
+    expect(store.getEvent(id)!.retry_count).toBe(1);
+  });
+});
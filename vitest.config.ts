@@ -4,5 +4,12 @@ export default defineConfig({
   test: {
     globals: true,
     testTimeout: 10000,
+    // Type-level assertions (expectTypeOf, @ts-expect-error) are checked by tsc, which also fails
+    // the run on a type error in any other test file
+    typecheck: {
+      enabled: true,
+      include: ['src/**/typed.test.ts'],
+      tsconfig: './tsconfig.test.json',
+    },
   },
 });